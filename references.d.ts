@@ -1 +1,6 @@
 /// <reference path="./node_modules/@nativescript/types/index.d.ts" />
+
+// The Android runtime lets an ArrayBuffer share the memory of a direct ByteBuffer
+interface ArrayBufferConstructor {
+  from(buffer: java.nio.ByteBuffer): ArrayBuffer;
+}
@@ -0,0 +1,68 @@
+import { minimumBufferSize } from './audio-recorder';
+
+/**
+ * Adaptive analysis window
+ * Picks the window from the note being played: several periods of the
+ * fundamental, so low notes get the long window they need for accuracy and
+ * high notes the short one that responds quickly. Each new note starts from a
+ * window that can still hear the instrument's lowest note.
+ */
+
+export const AUTO_BUFFER_SIZE = 0;
+
+export const WINDOW_SIZES = [1024, 2048, 4096, 8192];
+
+const PERIODS_PER_WINDOW = 4;
+// Readings in a row that must ask for a smaller window before it shrinks
+const SHRINK_READINGS = 10;
+
+export class AdaptiveWindow {
+  private _size: number;
+  private smallerReadings = 0;
+
+  constructor(private sampleRate: number, private minFrequency: number) {
+    this._size = this.widest();
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  setRange(sampleRate: number, minFrequency: number): number {
+    this.sampleRate = sampleRate;
+    this.minFrequency = minFrequency;
+    return this.reset();
+  }
+
+  // Grow at once for a lower note; shrink only once the note has stayed high
+  update(frequency: number): number {
+    const wanted = fitWindow(PERIODS_PER_WINDOW * this.sampleRate / frequency);
+
+    if (wanted > this._size) {
+      this._size = wanted;
+      this.smallerReadings = 0;
+    } else if (wanted < this._size && ++this.smallerReadings >= SHRINK_READINGS) {
+      this._size = wanted;
+      this.smallerReadings = 0;
+    } else if (wanted === this._size) {
+      this.smallerReadings = 0;
+    }
+    return this._size;
+  }
+
+  // Back to the window for the instrument's lowest note, e.g. for a new note
+  reset(): number {
+    this._size = this.widest();
+    this.smallerReadings = 0;
+    return this._size;
+  }
+
+  private widest(): number {
+    return fitWindow(minimumBufferSize(this.minFrequency, this.sampleRate));
+  }
+}
+
+// Smallest window size holding the given number of samples
+function fitWindow(samples: number): number {
+  return WINDOW_SIZES.find(size => size >= samples) ?? WINDOW_SIZES[WINDOW_SIZES.length - 1];
+}
@@ -1,40 +1,219 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchAlgorithm, scratchBuffer } from './detectors';
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+import { StringEstimate, StringEstimator } from './polyphonic';
+import { DrumPeakFinder, DrumPeaks } from './drum';
+import { InharmonicityEstimate, InharmonicityMeter } from './inharmonicity';
+import { PitchAnalyzer, rms } from './pitch-analyzer';
+import { frequencyToNote, noteToFrequency } from './notes';
+import { RingBuffer } from './ring-buffer';
+import { InputFilterChain, InputFilterOptions, MainsFrequency } from './filters';
+
+export * from './detectors';
+export { StringEstimate } from './polyphonic';
+export { DrumPeaks, DRUM_MIN_FREQUENCY, DRUM_MAX_FREQUENCY } from './drum';
+export { InharmonicityEstimate } from './inharmonicity';
+export { PitchAnalyzer, rms } from './pitch-analyzer';
+export { PitchWorkerClient } from './pitch-worker-client';
+export { OnsetDetector } from './onset-detector';
+export { InputFilterOptions, HumNotchMode, MainsFrequency, DEFAULT_INPUT_FILTERS } from './filters';
+export { NOTE_NAMES, semitoneToNote, semitoneOffset, noteToFrequency } from './notes';
+export { Temperament, TEMPERAMENT_INFO, temperamentOffsets } from './temperaments';
+
 export interface PitchData {
   frequency: number;
   note: string;
   octave: number;
   cents: number;
   amplitude: number;
+  confidence: number; // 0-1, detector clarity; low values mean an unreliable reading
+  stringNumber?: number;    // String mode: matched string, 1 = the last of the tuning (high E on guitar)
+  targetFrequency?: number; // String mode: frequency the matched string is tuned to
+}
+
+export interface SpectrumData {
+  magnitudes: Float32Array; // Linear magnitude per bin, 1.0 = full-scale sine
+  binWidth: number;         // Hz between neighbouring bins
 }
 
 export interface AudioRecorderOptions {
   sampleRate?: number;
-  bufferSize?: number;
+  bufferSize?: number;   // Analysis window in samples
+  maxBufferSize?: number; // Largest window setAnalysisWindow may switch to
+  hopSize?: number;      // New samples between analyses, at most bufferSize
+  historySize?: number;  // Samples kept for readRecentSamples, at least bufferSize
+  pitchAlgorithm?: PitchAlgorithm;
+  minFrequency?: number;
+  maxFrequency?: number;
+  inputFilters?: InputFilterOptions;
 }
 
-export type AudioDataCallback = (audioData: number[]) => void;
+// Samples platform recorders read per callback. Kept small and independent of
+// the window and hop, so both can change while recording
+export const READ_SIZE = 512;
 
-// Musical notes
-export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+// Called with the latest analysis window once every hop. The buffer is reused
+// for the next window; copy it to keep it
+export type AudioDataCallback = (audioData: Float32Array) => void;
+
+// The period search compares the buffer against itself shifted by up to one
+// period of the lowest note, so the buffer must hold at least two of them
+export function minimumBufferSize(minFrequency: number, sampleRate: number): number {
+  return Math.ceil(sampleRate / minFrequency) * 2;
+}
 
 export abstract class AudioRecorderCommon {
-  protected readonly sampleRate: number;
-  protected readonly bufferSize: number;
+  protected readonly preferredSampleRate: number;
+  private _sampleRate: number;
+  protected readonly readSize = READ_SIZE;
+  private _bufferSize: number;
+  private _hopSize: number;
+  private requestedHopSize: number;
   protected audioDataCallback: AudioDataCallback | null = null;
+  protected pitchAlgorithm: PitchAlgorithm;
+  protected minFrequency: number;
+  protected maxFrequency: number;
+  protected pitchAnalyzer: PitchAnalyzer;
+  protected inputFilterOptions: InputFilterOptions | undefined;
+  private inputFilters: InputFilterChain;
+  private filteredChunk = new Float32Array(0);
   protected _isRecording = false;
+  private readonly ringBuffer: RingBuffer;
+  private analysisWindow: Float32Array;
+  private samplesSinceAnalysis = 0;
+  private spectrumWindow: Float64Array | null = null;
+  private spectrumRe: Float64Array = new Float64Array(0);
+  private spectrumIm: Float64Array = new Float64Array(0);
+  private stringEstimator = new StringEstimator();
+  private drumPeakFinder = new DrumPeakFinder();
+  private inharmonicityMeter = new InharmonicityMeter();
 
   constructor(options?: AudioRecorderOptions) {
-    this.sampleRate = options?.sampleRate ?? 44100;
-    this.bufferSize = options?.bufferSize ?? 4096;
+    this.preferredSampleRate = options?.sampleRate ?? 44100;
+    this._sampleRate = this.preferredSampleRate;
+    this._bufferSize = options?.bufferSize ?? 4096;
+    this.requestedHopSize = options?.hopSize ?? this._bufferSize;
+    this._hopSize = Math.min(this.requestedHopSize, this._bufferSize);
+    this.pitchAlgorithm = options?.pitchAlgorithm ?? 'autocorrelation';
+    this.minFrequency = options?.minFrequency ?? DEFAULT_MIN_FREQUENCY;
+    this.maxFrequency = options?.maxFrequency ?? DEFAULT_MAX_FREQUENCY;
+    this.pitchAnalyzer = new PitchAnalyzer(this.sampleRate, options);
+    this.inputFilterOptions = options?.inputFilters;
+    this.inputFilters = new InputFilterChain(this.sampleRate, this.minFrequency, this.maxFrequency, this.inputFilterOptions);
+    this.ringBuffer = new RingBuffer(Math.max(this._bufferSize, options?.maxBufferSize ?? 0, options?.historySize ?? 0));
+    this.analysisWindow = new Float32Array(this._bufferSize);
   }
 
   get isRecording(): boolean {
     return this._isRecording;
   }
 
+  // Analysis window in samples
+  get bufferSize(): number {
+    return this._bufferSize;
+  }
+
+  // New samples between analyses
+  get hopSize(): number {
+    return this._hopSize;
+  }
+
+  // Switch the analysis window while recording; the next window is read from
+  // the samples already recorded. Limited to the recorded history
+  setAnalysisWindow(bufferSize: number): void {
+    const size = Math.min(bufferSize, this.ringBuffer.capacity);
+    if (size === this._bufferSize) return;
+
+    this._bufferSize = size;
+    this._hopSize = Math.min(this.requestedHopSize, size);
+    this.analysisWindow = new Float32Array(size);
+  }
+
+  setHopSize(hopSize: number): void {
+    this.requestedHopSize = hopSize;
+    this._hopSize = Math.min(hopSize, this._bufferSize);
+  }
+
+  // Rate the hardware actually delivers; the requested one until recording starts
+  get sampleRate(): number {
+    return this._sampleRate;
+  }
+
   setAudioDataCallback(callback: AudioDataCallback | null): void {
     this.audioDataCallback = callback;
   }
 
+  setPitchAlgorithm(algorithm: PitchAlgorithm): void {
+    this.pitchAlgorithm = algorithm;
+    this.pitchAnalyzer.setPitchAlgorithm(algorithm);
+  }
+
+  setFrequencyRange(minFrequency: number, maxFrequency: number): void {
+    this.minFrequency = minFrequency;
+    this.maxFrequency = maxFrequency;
+    this.pitchAnalyzer.setFrequencyRange(minFrequency, maxFrequency);
+    this.inputFilters = new InputFilterChain(this.sampleRate, minFrequency, maxFrequency, this.inputFilterOptions);
+  }
+
+  setInputFilters(options: InputFilterOptions): void {
+    this.inputFilterOptions = options;
+    this.inputFilters = new InputFilterChain(this.sampleRate, this.minFrequency, this.maxFrequency, options);
+  }
+
+  // Mains frequency of strong hum in the input, 0 when there is none
+  get humFrequency(): MainsFrequency | 0 {
+    return this.inputFilters.humFrequency;
+  }
+
+  getMinimumBufferSize(minFrequency: number = this.minFrequency): number {
+    return minimumBufferSize(minFrequency, this.sampleRate);
+  }
+
+  // Copy the most recent samples, oldest first, into out. Returns false until
+  // enough audio has been recorded
+  readRecentSamples(out: Float32Array): boolean {
+    return this.ringBuffer.readLatest(out);
+  }
+
+  // Platform recorders hand every chunk they read to the input filters and the
+  // ring buffer; a full window is passed on each time another hop has arrived
+  protected pushSamples(samples: Float32Array): void {
+    if (this.filteredChunk.length < samples.length) {
+      this.filteredChunk = new Float32Array(samples.length);
+    }
+    const filtered = this.filteredChunk.subarray(0, samples.length);
+    this.inputFilters.process(samples, filtered);
+
+    this.ringBuffer.push(filtered);
+    this.samplesSinceAnalysis += samples.length;
+
+    if (this.samplesSinceAnalysis < this.hopSize || this.ringBuffer.length < this.bufferSize) return;
+    this.samplesSinceAnalysis = 0;
+
+    if (this.audioDataCallback && this.ringBuffer.readLatest(this.analysisWindow)) {
+      this.audioDataCallback(this.analysisWindow);
+    }
+  }
+
+  // Platform recorders report the rate they negotiated before the first
+  // samples arrive, so periods are converted to Hz with the right rate
+  protected setSampleRate(sampleRate: number): void {
+    if (sampleRate === this._sampleRate) return;
+
+    this._sampleRate = sampleRate;
+    this.pitchAnalyzer = new PitchAnalyzer(sampleRate, {
+      pitchAlgorithm: this.pitchAlgorithm,
+      minFrequency: this.minFrequency,
+      maxFrequency: this.maxFrequency
+    });
+    this.inputFilters = new InputFilterChain(sampleRate, this.minFrequency, this.maxFrequency, this.inputFilterOptions);
+  }
+
+  // Drop recorded audio, e.g. when recording restarts
+  protected clearSamples(): void {
+    this.ringBuffer.clear();
+    this.samplesSinceAnalysis = 0;
+  }
+
   // Platform-specific implementations
   abstract requestPermission(): Promise<boolean>;
   abstract start(): void;
@@ -42,134 +221,75 @@ export abstract class AudioRecorderCommon {
   abstract dispose(): void;
 
   // Shared pitch detection logic
-  detectPitch(audioData: number[], noiseThreshold: number = 0.01): { frequency: number; amplitude: number } | null {
-    // Calculate amplitude (RMS)
-    let sum = 0;
-    for (const sample of audioData) {
-      sum += sample * sample;
-    }
-    const amplitude = Math.sqrt(sum / audioData.length);
+  detectPitch(audioData: Float32Array, noiseThreshold: number = 0.01): { frequency: number; amplitude: number; clarity: number } | null {
+    return this.pitchAnalyzer.detectPitch(audioData, noiseThreshold);
+  }
+
+  // Detection plus note naming on the calling thread, used when no pitch worker is available
+  analyzePitch(audioData: Float32Array, noiseThreshold: number, referencePitch: number = 440, temperament?: number[]): PitchData | null {
+    return this.pitchAnalyzer.analyze(audioData, noiseThreshold, referencePitch, temperament);
+  }
 
-    // Check if signal is above noise threshold
-    if (amplitude < noiseThreshold) {
+  // Estimate every open string of a strum at once, one result per target frequency
+  detectStrings(audioData: Float32Array, targetFrequencies: number[], noiseThreshold: number = 0.01): StringEstimate[] | null {
+    if (rms(audioData) < noiseThreshold) {
       return null;
     }
 
-    // Detect pitch using autocorrelation (YIN-inspired algorithm)
-    const frequency = this.autocorrelate(audioData);
-    
-    if (frequency > 0) {
-      return { frequency, amplitude };
-    }
-    
-    return null;
+    return this.stringEstimator.estimate(audioData, this.sampleRate, targetFrequencies);
   }
 
-  private autocorrelate(audioData: number[]): number {
-    const minFreq = 60; // E2 is ~82Hz, go a bit lower
-    const maxFreq = 1500; // High E on guitar ~1318Hz
-    
-    const minPeriod = Math.floor(this.sampleRate / maxFreq);
-    const maxPeriod = Math.floor(this.sampleRate / minFreq);
-    
-    const bufferSize = audioData.length;
-    if (bufferSize < maxPeriod * 2) return 0;
-
-    // Difference function
-    const diff = new Array(maxPeriod).fill(0);
-    
-    for (let tau = minPeriod; tau < maxPeriod; tau++) {
-      for (let i = 0; i < bufferSize - maxPeriod; i++) {
-        const delta = audioData[i] - audioData[i + tau];
-        diff[tau] += delta * delta;
-      }
+  // Fundamental and first overtone of a drum hit, read from the spectrum peaks
+  detectDrum(audioData: Float32Array, noiseThreshold: number = 0.01): DrumPeaks | null {
+    if (rms(audioData) < noiseThreshold) {
+      return null;
     }
 
-    // Cumulative mean normalized difference function (CMNDF)
-    const cmndf = new Array(maxPeriod).fill(0);
-    cmndf[0] = 1;
-    let runningSum = 0;
-    
-    for (let tau = minPeriod; tau < maxPeriod; tau++) {
-      runningSum += diff[tau];
-      cmndf[tau] = diff[tau] * tau / runningSum;
-    }
+    return this.drumPeakFinder.find(audioData, this.sampleRate);
+  }
+
+  // Inharmonicity of a sustained note from its partials, given its detected pitch
+  measureInharmonicity(audioData: Float32Array, frequency: number): InharmonicityEstimate | null {
+    return this.inharmonicityMeter.measure(audioData, this.sampleRate, frequency);
+  }
+
+  // Windowed magnitude spectrum of one buffer, zero-padded to twice the next power of two
+  computeSpectrum(audioData: Float32Array): SpectrumData {
+    const bufferSize = audioData.length;
+    const fftSize = nextPowerOfTwo(bufferSize) * 2;
 
-    // Find the first minimum below threshold
-    const threshold = 0.1;
-    let bestTau = 0;
-    
-    for (let tau = minPeriod; tau < maxPeriod - 1; tau++) {
-      if (cmndf[tau] < threshold) {
-        // Find local minimum
-        while (tau + 1 < maxPeriod && cmndf[tau + 1] < cmndf[tau]) {
-          tau++;
-        }
-        bestTau = tau;
-        break;
-      }
+    if (!this.spectrumWindow || this.spectrumWindow.length !== bufferSize) {
+      this.spectrumWindow = hannWindow(bufferSize);
     }
+    const window = this.spectrumWindow;
 
-    // If no minimum found below threshold, find global minimum
-    if (bestTau === 0) {
-      let minValue = cmndf[minPeriod];
-      bestTau = minPeriod;
-      
-      for (let tau = minPeriod + 1; tau < maxPeriod; tau++) {
-        if (cmndf[tau] < minValue) {
-          minValue = cmndf[tau];
-          bestTau = tau;
-        }
-      }
-      
-      // Only return if minimum is reasonable
-      if (minValue > 0.5) return 0;
+    const re = this.spectrumRe = scratchBuffer(this.spectrumRe, fftSize);
+    const im = this.spectrumIm = scratchBuffer(this.spectrumIm, fftSize);
+    let windowSum = 0;
+    for (let i = 0; i < bufferSize; i++) {
+      re[i] = audioData[i] * window[i];
+      windowSum += window[i];
     }
+    fft(re, im);
 
-    // Parabolic interpolation for better accuracy
-    if (bestTau > minPeriod && bestTau < maxPeriod - 1) {
-      const s0 = cmndf[bestTau - 1];
-      const s1 = cmndf[bestTau];
-      const s2 = cmndf[bestTau + 1];
-      const betterTau = bestTau + (s0 - s2) / (2 * (s0 - 2 * s1 + s2));
-      return this.sampleRate / betterTau;
+    // Normalize so a full-scale sine peaks at ~1.0 regardless of buffer size.
+    // Magnitudes are published to subscribers, so they get a fresh array
+    const scale = windowSum > 0 ? 2 / windowSum : 0;
+    const magnitudes = new Float32Array(fftSize / 2);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]) * scale;
     }
 
-    return this.sampleRate / bestTau;
+    return { magnitudes, binWidth: this.sampleRate / fftSize };
   }
 
   // Convert frequency to musical note
-  frequencyToNote(frequency: number, referencePitch: number = 440): Omit<PitchData, 'amplitude'> {
-    // Calculate semitones from A4
-    const semitonesFromA4 = 12 * Math.log2(frequency / referencePitch);
-    
-    // Round to nearest semitone
-    const roundedSemitones = Math.round(semitonesFromA4);
-    
-    // Calculate cents deviation (100 cents = 1 semitone)
-    const cents = Math.round((semitonesFromA4 - roundedSemitones) * 100);
-    
-    // Calculate note index and octave
-    // A4 is the 9th note (index 9) of octave 4
-    const noteIndexFromC0 = roundedSemitones + 9 + (4 * 12);
-    const octave = Math.floor(noteIndexFromC0 / 12);
-    const noteIndex = ((noteIndexFromC0 % 12) + 12) % 12;
-    
-    return {
-      frequency,
-      note: NOTE_NAMES[noteIndex],
-      octave,
-      cents
-    };
+  frequencyToNote(frequency: number, referencePitch: number = 440, temperament?: number[]): Omit<PitchData, 'amplitude' | 'confidence'> {
+    return frequencyToNote(frequency, referencePitch, temperament);
   }
 
   // Get expected frequency for a note
-  noteToFrequency(note: string, octave: number, referencePitch: number = 440): number {
-    const noteIndex = NOTE_NAMES.indexOf(note);
-    if (noteIndex === -1) return 0;
-    
-    // Semitones from A4
-    const semitonesFromA4 = (octave - 4) * 12 + (noteIndex - 9);
-    return referencePitch * Math.pow(2, semitonesFromA4 / 12);
+  noteToFrequency(note: string, octave: number, referencePitch: number = 440, temperament?: number[]): number {
+    return noteToFrequency(note, octave, referencePitch, temperament);
   }
 }
@@ -0,0 +1,91 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchDetector, PitchEstimate, fitPeriod, scratchBuffer } from './pitch-detector.interface';
+
+/**
+ * Autocorrelation detector
+ * The original YIN-inspired search: difference function over the guitar range,
+ * cumulative mean normalization and a fixed 0.1 threshold
+ */
+export class AutocorrelationDetector implements PitchDetector {
+  name = 'Autocorrelation';
+  description = 'Fast YIN-style search, original detector';
+
+  private diff: Float64Array = new Float64Array(0);
+  private cmndf: Float64Array = new Float64Array(0);
+
+  constructor(
+    private readonly minFrequency: number = DEFAULT_MIN_FREQUENCY,
+    private readonly maxFrequency: number = DEFAULT_MAX_FREQUENCY,
+    private readonly threshold: number = 0.1
+  ) {}
+
+  detect(audioData: Float32Array, sampleRate: number): PitchEstimate | null {
+    const bufferSize = audioData.length;
+    const minPeriod = Math.floor(sampleRate / this.maxFrequency);
+    const maxPeriod = fitPeriod(Math.floor(sampleRate / this.minFrequency), bufferSize);
+    if (maxPeriod <= minPeriod + 1) return null;
+
+    // Difference function
+    const diff = this.diff = scratchBuffer(this.diff, maxPeriod);
+
+    for (let tau = minPeriod; tau < maxPeriod; tau++) {
+      for (let i = 0; i < bufferSize - maxPeriod; i++) {
+        const delta = audioData[i] - audioData[i + tau];
+        diff[tau] += delta * delta;
+      }
+    }
+
+    // Cumulative mean normalized difference function (CMNDF)
+    const cmndf = this.cmndf = scratchBuffer(this.cmndf, maxPeriod);
+    cmndf[0] = 1;
+    let runningSum = 0;
+
+    for (let tau = minPeriod; tau < maxPeriod; tau++) {
+      runningSum += diff[tau];
+      cmndf[tau] = diff[tau] * tau / runningSum;
+    }
+
+    // Find the first minimum below threshold
+    let bestTau = 0;
+
+    for (let tau = minPeriod; tau < maxPeriod - 1; tau++) {
+      if (cmndf[tau] < this.threshold) {
+        // Find local minimum
+        while (tau + 1 < maxPeriod && cmndf[tau + 1] < cmndf[tau]) {
+          tau++;
+        }
+        bestTau = tau;
+        break;
+      }
+    }
+
+    // If no minimum found below threshold, find global minimum
+    if (bestTau === 0) {
+      let minValue = cmndf[minPeriod];
+      bestTau = minPeriod;
+
+      for (let tau = minPeriod + 1; tau < maxPeriod; tau++) {
+        if (cmndf[tau] < minValue) {
+          minValue = cmndf[tau];
+          bestTau = tau;
+        }
+      }
+
+      // Only return if minimum is reasonable
+      if (minValue > 0.5) return null;
+    }
+
+    // A clean period leaves the CMNDF dip near zero
+    const clarity = Math.max(0, 1 - cmndf[bestTau]);
+
+    // Parabolic interpolation for better accuracy
+    if (bestTau > minPeriod && bestTau < maxPeriod - 1) {
+      const s0 = cmndf[bestTau - 1];
+      const s1 = cmndf[bestTau];
+      const s2 = cmndf[bestTau + 1];
+      const betterTau = bestTau + (s0 - s2) / (2 * (s0 - 2 * s1 + s2));
+      return { frequency: sampleRate / betterTau, clarity };
+    }
+
+    return { frequency: sampleRate / bestTau, clarity };
+  }
+}
@@ -0,0 +1,176 @@
+import { fft, hannWindow, nextPowerOfTwo } from '../fft';
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchDetector, PitchEstimate, parabolicOffset, scratchBuffer } from './pitch-detector.interface';
+
+// Half-width of a Hann main lobe in bins, with 2x zero-padding
+const MAIN_LOBE_BINS = 4;
+// Harmonics missing from a candidate count as this share of the strongest bin,
+// so a pure tone does not score its subharmonics above itself
+const HARMONIC_FLOOR = 0.05;
+// Periods the window must hold for a candidate, as fitPeriod allows the lag detectors
+const MIN_PERIODS = 2;
+// Scores this close are a tie, which goes to the higher candidate
+const SCORE_TOLERANCE = 1e-9;
+
+/**
+ * Harmonic product spectrum detector
+ * Hann-windowed, zero-padded FFT; the spectrum is multiplied with its own
+ * downsampled copies so the bin shared by all harmonics stands out
+ */
+export class HpsDetector implements PitchDetector {
+  name = 'Harmonic Spectrum';
+  description = 'FFT product of harmonics, rich tones';
+
+  private window: Float64Array = new Float64Array(0);
+  private re: Float64Array = new Float64Array(0);
+  private im: Float64Array = new Float64Array(0);
+  private magnitudes: Float64Array = new Float64Array(0);
+
+  constructor(
+    private readonly minFrequency: number = DEFAULT_MIN_FREQUENCY,
+    private readonly maxFrequency: number = DEFAULT_MAX_FREQUENCY,
+    private readonly harmonics: number = 5
+  ) {}
+
+  detect(audioData: Float32Array, sampleRate: number): PitchEstimate | null {
+    const bufferSize = audioData.length;
+    // Zero-pad to twice the next power of two for finer bin spacing
+    const fftSize = nextPowerOfTwo(bufferSize) * 2;
+    if (this.window.length !== bufferSize) {
+      this.window = hannWindow(bufferSize);
+    }
+    const window = this.window;
+
+    const re = this.re = scratchBuffer(this.re, fftSize);
+    const im = this.im = scratchBuffer(this.im, fftSize);
+    for (let i = 0; i < bufferSize; i++) {
+      re[i] = audioData[i] * window[i];
+    }
+    fft(re, im);
+
+    const halfSize = fftSize / 2;
+    const magnitudes = this.magnitudes = scratchBuffer(this.magnitudes, halfSize);
+    for (let k = 0; k < halfSize; k++) {
+      magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+    }
+
+    const binWidth = sampleRate / fftSize;
+    const minFrequency = Math.max(this.minFrequency, (MIN_PERIODS * sampleRate) / bufferSize);
+    const minBin = Math.max(1, Math.ceil(minFrequency / binWidth));
+    const maxBin = Math.min(Math.floor(this.maxFrequency / binWidth), Math.floor((halfSize - 1) / this.harmonics - 1));
+    if (maxBin <= minBin) return null;
+
+    let peak = 0;
+    for (let k = minBin; k <= maxBin * this.harmonics; k++) {
+      peak = Math.max(peak, magnitudes[k]);
+    }
+    if (peak === 0) return null;
+
+    // Harmonic h of any frequency inside bin k lands within h/2 bins of k*h,
+    // so take the highest bin there
+    const harmonicBin = (k: number, h: number) => {
+      let best = Math.round(h * (k - 0.5));
+      for (let bin = best + 1; bin <= Math.round(h * (k + 0.5)); bin++) {
+        if (magnitudes[bin] > magnitudes[best]) best = bin;
+      }
+      return best;
+    };
+    // A bin on the slope of a neighbouring peak is not a harmonic of its own
+    const isLocalMaximum = (bin: number) =>
+      bin >= 1 && bin < halfSize - 1 && magnitudes[bin] >= magnitudes[bin - 1] && magnitudes[bin] >= magnitudes[bin + 1];
+
+    // Sum of log magnitudes avoids underflow in the product. Scanning down from
+    // the top, a subharmonic has to score higher to take over
+    const floor = peak * HARMONIC_FLOOR;
+    let bestBin = 0;
+    let bestScore = -Infinity;
+    for (let k = maxBin; k >= minBin; k--) {
+      let score = 0;
+      for (let h = 1; h <= this.harmonics; h++) {
+        const bin = harmonicBin(k, h);
+        score += Math.log(isLocalMaximum(bin) ? Math.max(magnitudes[bin], floor) : floor);
+      }
+      if (score > bestScore + SCORE_TOLERANCE) {
+        bestScore = score;
+        bestBin = k;
+      }
+    }
+
+    // Refine on the strongest harmonic that is a true local maximum; a Hann
+    // lobe is close to a Gaussian, so the parabola is fitted to log magnitudes
+    let frequency = bestBin * binWidth;
+    let strongest = 0;
+    for (let h = 1; h <= this.harmonics; h++) {
+      const bin = harmonicBin(bestBin, h);
+      const magnitude = magnitudes[bin];
+      if (magnitude <= strongest || !isLocalMaximum(bin)) continue;
+
+      const offset = parabolicOffset(
+        Math.log(magnitudes[bin - 1] + 1e-12), Math.log(magnitude + 1e-12), Math.log(magnitudes[bin + 1] + 1e-12));
+      frequency = ((bin + offset) * binWidth) / h;
+      strongest = magnitude;
+    }
+
+    // Strongest bin within a bin of a partial at a known frequency
+    const partialBin = (partial: number) => {
+      const center = Math.round(partial / binWidth);
+      let best = center;
+      for (let bin = center - 1; bin <= center + 1; bin++) {
+        if (magnitudes[bin] > magnitudes[best]) best = bin;
+      }
+      return best;
+    };
+
+    // A plucked string's partials are uneven, so a few strong upper ones can
+    // outscore the real fundamental, whose series then holds the winner's. The
+    // lower note also has partials below the winner, where a true fundamental
+    // has none, so the lowest sub-multiple with most of those present takes over
+    let divisor = 1;
+    for (let m = Math.floor(frequency / minFrequency); m >= 2; m--) {
+      let present = 0;
+      for (let j = 1; j < m; j++) {
+        const bin = partialBin((j * frequency) / m);
+        if (isLocalMaximum(bin) && magnitudes[bin] >= floor) present++;
+      }
+      if (present * 2 > m - 1) {
+        divisor = m;
+        break;
+      }
+    }
+    frequency /= divisor;
+    if ((frequency * bufferSize) / sampleRate < MIN_PERIODS) return null;
+
+    // The series spans what the winner's harmonics covered
+    const seriesHarmonics = Math.min(this.harmonics * divisor, Math.floor(((halfSize - 2) * binWidth) / frequency));
+
+    // Reject spectra whose strongest component is not part of the chosen series.
+    // The fundamental itself may be weak (missing fundamental), so check all harmonics
+    let seriesPeak = 0;
+    for (let h = 1; h <= seriesHarmonics; h++) {
+      seriesPeak = Math.max(seriesPeak, magnitudes[partialBin(h * frequency)]);
+    }
+    if (seriesPeak < peak * 0.5) return null;
+
+    // Clarity is the share of spectral energy on the chosen harmonic series,
+    // counting each harmonic's main lobe. Neighbouring lobes overlap for low
+    // notes, so each bin is counted once
+    const upperBin = Math.min(halfSize - 1, (maxBin + 1) * this.harmonics);
+    let totalEnergy = 0;
+    for (let k = minBin; k <= upperBin; k++) {
+      totalEnergy += magnitudes[k] * magnitudes[k];
+    }
+    let seriesEnergy = 0;
+    let counted = minBin - 1;
+    for (let h = 1; h <= seriesHarmonics; h++) {
+      const center = Math.round((h * frequency) / binWidth);
+      const from = Math.max(counted + 1, center - MAIN_LOBE_BINS);
+      const to = Math.min(upperBin, center + MAIN_LOBE_BINS);
+      for (let k = from; k <= to; k++) {
+        seriesEnergy += magnitudes[k] * magnitudes[k];
+      }
+      counted = Math.max(counted, to);
+    }
+    const clarity = totalEnergy > 0 ? seriesEnergy / totalEnergy : 0;
+
+    return { frequency, clarity };
+  }
+}
@@ -0,0 +1,29 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchAlgorithm, PitchDetector } from './pitch-detector.interface';
+import { AutocorrelationDetector } from './autocorrelation.detector';
+import { YinDetector } from './yin.detector';
+import { MpmDetector } from './mpm.detector';
+import { HpsDetector } from './hps.detector';
+
+export * from './pitch-detector.interface';
+export * from './autocorrelation.detector';
+export * from './yin.detector';
+export * from './mpm.detector';
+export * from './hps.detector';
+
+export function createPitchDetector(
+  algorithm: PitchAlgorithm,
+  minFrequency: number = DEFAULT_MIN_FREQUENCY,
+  maxFrequency: number = DEFAULT_MAX_FREQUENCY
+): PitchDetector {
+  switch (algorithm) {
+    case 'yin':
+      return new YinDetector(minFrequency, maxFrequency);
+    case 'mpm':
+      return new MpmDetector(minFrequency, maxFrequency);
+    case 'hps':
+      return new HpsDetector(minFrequency, maxFrequency);
+    case 'autocorrelation':
+    default:
+      return new AutocorrelationDetector(minFrequency, maxFrequency);
+  }
+}
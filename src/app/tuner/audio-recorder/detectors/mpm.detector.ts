@@ -0,0 +1,89 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchDetector, PitchEstimate, fitPeriod, parabolicOffset, scratchBuffer } from './pitch-detector.interface';
+
+/**
+ * McLeod Pitch Method detector
+ * Normalized square difference function (McLeod & Wyvill, 2005) with key-maximum
+ * peak picking: the first key maximum within k of the highest one wins
+ */
+export class MpmDetector implements PitchDetector {
+  name = 'McLeod (MPM)';
+  description = 'Normalized square difference, quick attack';
+
+  private nsdf: Float64Array = new Float64Array(0);
+  private keyMaxima = new Int32Array(0);
+
+  constructor(
+    private readonly minFrequency: number = DEFAULT_MIN_FREQUENCY,
+    private readonly maxFrequency: number = DEFAULT_MAX_FREQUENCY,
+    private readonly cutoff: number = 0.93,
+    private readonly minClarity: number = 0.5
+  ) {}
+
+  detect(audioData: Float32Array, sampleRate: number): PitchEstimate | null {
+    const bufferSize = audioData.length;
+    const minPeriod = Math.max(1, Math.floor(sampleRate / this.maxFrequency));
+    const maxPeriod = fitPeriod(Math.ceil(sampleRate / this.minFrequency), bufferSize);
+    if (maxPeriod <= minPeriod + 1) return null;
+
+    // Normalized square difference function
+    const nsdf = this.nsdf = scratchBuffer(this.nsdf, maxPeriod + 2);
+    for (let tau = 0; tau < nsdf.length; tau++) {
+      let acf = 0;
+      let energy = 0;
+      for (let i = 0; i < bufferSize - tau; i++) {
+        acf += audioData[i] * audioData[i + tau];
+        energy += audioData[i] * audioData[i] + audioData[i + tau] * audioData[i + tau];
+      }
+      nsdf[tau] = energy > 0 ? (2 * acf) / energy : 0;
+    }
+
+    // Collect the highest point between each positive-going zero crossing
+    // and the following negative-going one, skipping the lobe around lag 0
+    if (this.keyMaxima.length < nsdf.length) {
+      this.keyMaxima = new Int32Array(nsdf.length);
+    }
+    const keyMaxima = this.keyMaxima;
+    let keyCount = 0;
+    let tau = 1;
+    while (tau < nsdf.length - 1 && nsdf[tau] > 0) {
+      tau++;
+    }
+
+    while (tau < nsdf.length - 1) {
+      while (tau < nsdf.length - 1 && nsdf[tau] <= 0) {
+        tau++;
+      }
+      let peakTau = -1;
+      while (tau < nsdf.length - 1 && nsdf[tau] > 0) {
+        if (peakTau === -1 || nsdf[tau] > nsdf[peakTau]) {
+          peakTau = tau;
+        }
+        tau++;
+      }
+      if (peakTau >= minPeriod && peakTau <= maxPeriod) {
+        keyMaxima[keyCount++] = peakTau;
+      }
+    }
+
+    if (keyCount === 0) return null;
+
+    let highest = 0;
+    for (let i = 0; i < keyCount; i++) {
+      highest = Math.max(highest, nsdf[keyMaxima[i]]);
+    }
+    if (highest < this.minClarity) return null;
+
+    const threshold = this.cutoff * highest;
+    let bestTau = keyMaxima[0];
+    for (let i = 0; i < keyCount; i++) {
+      if (nsdf[keyMaxima[i]] >= threshold) {
+        bestTau = keyMaxima[i];
+        break;
+      }
+    }
+
+    const betterTau = bestTau + parabolicOffset(nsdf[bestTau - 1], nsdf[bestTau], nsdf[bestTau + 1]);
+    // The NSDF peak height is McLeod's clarity measure
+    return { frequency: sampleRate / betterTau, clarity: nsdf[bestTau] };
+  }
+}
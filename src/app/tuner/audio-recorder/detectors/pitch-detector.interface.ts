@@ -0,0 +1,46 @@
+export type PitchAlgorithm = 'autocorrelation' | 'yin' | 'mpm' | 'hps';
+
+export const DEFAULT_MIN_FREQUENCY = 60;   // E2 is ~82Hz, go a bit lower
+export const DEFAULT_MAX_FREQUENCY = 1500; // High E on guitar ~1318Hz
+
+export interface PitchEstimate {
+  frequency: number; // Detected fundamental in Hz
+  clarity: number;   // 0-1, how cleanly periodic the buffer is at that frequency
+}
+
+export interface PitchDetector {
+  name: string;
+  description: string;
+  // Returns null when no pitch was found.
+  // Implementations keep their scratch buffers between calls
+  detect(audioData: Float32Array, sampleRate: number): PitchEstimate | null;
+}
+
+export const PITCH_ALGORITHM_INFO: Record<PitchAlgorithm, { name: string; description: string }> = {
+  autocorrelation: { name: 'Autocorrelation', description: 'Fast YIN-style search, original detector' },
+  yin: { name: 'YIN', description: 'Full YIN, steady on sustained notes' },
+  mpm: { name: 'McLeod (MPM)', description: 'Normalized square difference, quick attack' },
+  hps: { name: 'Harmonic Spectrum', description: 'FFT product of harmonics, rich tones' }
+};
+
+// Refine a peak/trough position by fitting a parabola through its neighbours
+export function parabolicOffset(s0: number, s1: number, s2: number): number {
+  const denominator = s0 - 2 * s1 + s2;
+  if (denominator === 0) return 0;
+  return (s0 - s2) / (2 * denominator);
+}
+
+// The lag search needs two periods in the buffer. A window too short for the
+// lowest note searches only the periods that fit, so it still finds higher notes
+export function fitPeriod(period: number, bufferSize: number): number {
+  return Math.min(period, bufferSize >> 1);
+}
+
+// Reuse a scratch buffer when it already has the right length, zeroed
+export function scratchBuffer(buffer: Float64Array, length: number): Float64Array {
+  if (buffer.length !== length) {
+    return new Float64Array(length);
+  }
+  buffer.fill(0);
+  return buffer;
+}
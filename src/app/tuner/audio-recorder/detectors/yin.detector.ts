@@ -0,0 +1,80 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchDetector, PitchEstimate, fitPeriod, parabolicOffset, scratchBuffer } from './pitch-detector.interface';
+
+/**
+ * YIN detector
+ * Full YIN (de Cheveigné & Kawahara, 2002), steps 1-5: difference function,
+ * cumulative mean normalization from lag 1, absolute threshold and parabolic
+ * interpolation on the raw difference function
+ */
+export class YinDetector implements PitchDetector {
+  name = 'YIN';
+  description = 'Full YIN, steady on sustained notes';
+
+  private diff: Float64Array = new Float64Array(0);
+  private cmndf: Float64Array = new Float64Array(0);
+
+  constructor(
+    private readonly minFrequency: number = DEFAULT_MIN_FREQUENCY,
+    private readonly maxFrequency: number = DEFAULT_MAX_FREQUENCY,
+    private readonly threshold: number = 0.15
+  ) {}
+
+  detect(audioData: Float32Array, sampleRate: number): PitchEstimate | null {
+    const bufferSize = audioData.length;
+    const minPeriod = Math.max(2, Math.floor(sampleRate / this.maxFrequency));
+    const maxPeriod = fitPeriod(Math.ceil(sampleRate / this.minFrequency), bufferSize);
+    if (maxPeriod <= minPeriod + 1) return null;
+
+    // Integration window stays constant for every lag
+    const windowSize = bufferSize - maxPeriod;
+
+    // Step 2: difference function for every lag, including those below minPeriod,
+    // so the cumulative mean in step 3 is not biased by the search range
+    const diff = this.diff = scratchBuffer(this.diff, maxPeriod + 1);
+    for (let tau = 1; tau <= maxPeriod; tau++) {
+      let sum = 0;
+      for (let i = 0; i < windowSize; i++) {
+        const delta = audioData[i] - audioData[i + tau];
+        sum += delta * delta;
+      }
+      diff[tau] = sum;
+    }
+
+    // Step 3: cumulative mean normalized difference
+    const cmndf = this.cmndf = scratchBuffer(this.cmndf, maxPeriod + 1);
+    cmndf[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= maxPeriod; tau++) {
+      runningSum += diff[tau];
+      cmndf[tau] = runningSum > 0 ? diff[tau] * tau / runningSum : 1;
+    }
+
+    // Step 4: first dip below the absolute threshold, then walk to its minimum
+    let bestTau = 0;
+    for (let tau = minPeriod; tau < maxPeriod; tau++) {
+      if (cmndf[tau] < this.threshold) {
+        while (tau + 1 < maxPeriod && cmndf[tau + 1] < cmndf[tau]) {
+          tau++;
+        }
+        bestTau = tau;
+        break;
+      }
+    }
+
+    // No dip below threshold: fall back to the global minimum if it is plausible
+    if (bestTau === 0) {
+      let minValue = Infinity;
+      for (let tau = minPeriod; tau < maxPeriod; tau++) {
+        if (cmndf[tau] < minValue) {
+          minValue = cmndf[tau];
+          bestTau = tau;
+        }
+      }
+      if (minValue > 0.5) return null;
+    }
+
+    // Step 5: parabolic interpolation on the raw difference function
+    const betterTau = bestTau + parabolicOffset(diff[bestTau - 1], diff[bestTau], diff[bestTau + 1]);
+    return { frequency: sampleRate / betterTau, clarity: Math.max(0, 1 - cmndf[bestTau]) };
+  }
+}
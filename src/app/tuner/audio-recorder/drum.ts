@@ -0,0 +1,74 @@
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+import { parabolicOffset, scratchBuffer } from './detectors';
+
+/**
+ * Drum head analysis
+ * A struck membrane has inharmonic partials, so the period-based detectors
+ * lock onto nothing useful. Instead the decaying hit is windowed, the FFT
+ * peaks in the drum range are picked, and the lowest strong peak is taken as
+ * the fundamental and the next one up as the first overtone. Peak positions
+ * are refined by parabolic interpolation of the log magnitude.
+ */
+
+export interface DrumPeaks {
+  fundamental: number; // Hz
+  overtone: number;    // First overtone in Hz, 0 when none stands out
+}
+
+export const DRUM_MIN_FREQUENCY = 40;
+export const DRUM_MAX_FREQUENCY = 1000;
+
+const ZERO_PADDING = 4;
+const PEAK_FLOOR = 0.01;         // Peaks more than 20 dB below the strongest are ignored
+const MIN_OVERTONE_RATIO = 1.2;  // The first overtone sits well above the fundamental (1.59x on an ideal membrane)
+const MAX_OVERTONE_RATIO = 2.5;
+
+export class DrumPeakFinder {
+  // Window and FFT buffers are kept between hits of the same length
+  private window: Float64Array = new Float64Array(0);
+  private re: Float64Array = new Float64Array(0);
+  private im: Float64Array = new Float64Array(0);
+
+  find(audioData: Float32Array, sampleRate: number): DrumPeaks | null {
+    const bufferSize = audioData.length;
+    const fftSize = nextPowerOfTwo(bufferSize) * ZERO_PADDING;
+    if (this.window.length !== bufferSize) {
+      this.window = hannWindow(bufferSize);
+    }
+
+    const re = this.re = scratchBuffer(this.re, fftSize);
+    const im = this.im = scratchBuffer(this.im, fftSize);
+    for (let i = 0; i < bufferSize; i++) {
+      re[i] = audioData[i] * this.window[i];
+    }
+    fft(re, im);
+
+    const binWidth = sampleRate / fftSize;
+    const fromBin = Math.max(1, Math.floor(DRUM_MIN_FREQUENCY / binWidth));
+    const toBin = Math.min(fftSize / 2 - 2, Math.ceil(DRUM_MAX_FREQUENCY / binWidth));
+    const power = (k: number) => re[k] * re[k] + im[k] * im[k];
+
+    let strongest = 0;
+    for (let k = fromBin; k <= toBin; k++) {
+      strongest = Math.max(strongest, power(k));
+    }
+    if (strongest === 0) return null;
+
+    // Local maxima above the floor, lowest first
+    const floor = strongest * PEAK_FLOOR;
+    const peaks: number[] = [];
+    for (let k = fromBin; k <= toBin; k++) {
+      const p = power(k);
+      if (p >= floor && p > power(k - 1) && p >= power(k + 1)) {
+        // Hann peaks are close to Gaussian, so the parabola is fitted to log power
+        const offset = parabolicOffset(Math.log(power(k - 1) + 1e-20), Math.log(p), Math.log(power(k + 1) + 1e-20));
+        peaks.push((k + offset) * binWidth);
+      }
+    }
+    if (peaks.length === 0) return null;
+
+    const fundamental = peaks[0];
+    const overtone = peaks.find(f => f >= fundamental * MIN_OVERTONE_RATIO && f <= fundamental * MAX_OVERTONE_RATIO) ?? 0;
+    return { fundamental, overtone };
+  }
+}
@@ -0,0 +1,207 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY } from './detectors';
+
+/**
+ * Input filters
+ * Biquads from Robert Bristow-Johnson's Audio EQ Cookbook, a one-pole DC
+ * blocker and a mains hum detector. They run on the continuous sample stream
+ * ahead of the ring buffer, so filter state carries across chunks.
+ */
+
+export type MainsFrequency = 50 | 60;
+export type HumNotchMode = 'auto' | 'off' | MainsFrequency;
+
+export interface InputFilterOptions {
+  dcBlock: boolean;         // Remove DC offset and sub-audio drift
+  bandPass: boolean;        // Roll off below and well above the instrument range
+  humNotch: HumNotchMode;   // Notch the mains frequency, found automatically or fixed
+}
+
+export const DEFAULT_INPUT_FILTERS: InputFilterOptions = {
+  dcBlock: true,
+  bandPass: true,
+  humNotch: 'auto'
+};
+
+const DC_BLOCKER_POLE = 0.999;  // Corner near 7 Hz at 44.1kHz, well below B0
+const HIGH_PASS_RATIO = 0.7;    // High-pass corner relative to the lowest note
+const LOW_PASS_HARMONICS = 4;   // Keep this many harmonics of the highest note
+const NOTCH_Q = 30;             // ~2 Hz wide at 60 Hz, clear of B1 and A1
+
+class Biquad {
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  private constructor(
+    private readonly b0: number,
+    private readonly b1: number,
+    private readonly b2: number,
+    private readonly a1: number,
+    private readonly a2: number
+  ) {}
+
+  static highPass(sampleRate: number, frequency: number, q: number = Math.SQRT1_2): Biquad {
+    const { cos, alpha } = Biquad.prewarp(sampleRate, frequency, q);
+    return Biquad.normalized((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  static lowPass(sampleRate: number, frequency: number, q: number = Math.SQRT1_2): Biquad {
+    const { cos, alpha } = Biquad.prewarp(sampleRate, frequency, q);
+    return Biquad.normalized((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  static notch(sampleRate: number, frequency: number, q: number): Biquad {
+    const { cos, alpha } = Biquad.prewarp(sampleRate, frequency, q);
+    return Biquad.normalized(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  private static prewarp(sampleRate: number, frequency: number, q: number): { cos: number; alpha: number } {
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    return { cos: Math.cos(w0), alpha: Math.sin(w0) / (2 * q) };
+  }
+
+  private static normalized(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): Biquad {
+    return new Biquad(b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0);
+  }
+
+  process(x: number): number {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+const HUM_BLOCK_SECONDS = 0.5;  // A whole number of 50 and 60 Hz cycles
+const HUM_POWER_RATIO = 0.2;    // Share of signal power on one mains line that counts as strong hum
+const HUM_MIN_LEVEL = 0.002;    // RMS of the hum line below which it cannot bias detection
+const HUM_BLOCKS = 2;           // Consecutive blocks needed to raise or clear the warning
+
+// Running Goertzel at 50 and 60 Hz over fixed blocks of the stream
+class HumDetector {
+  private readonly blockSize: number;
+  private readonly coefficients: Record<MainsFrequency, number>;
+  private state: Record<MainsFrequency, { s1: number; s2: number }> = { 50: { s1: 0, s2: 0 }, 60: { s1: 0, s2: 0 } };
+  private energy = 0;
+  private count = 0;
+  private candidate: MainsFrequency | 0 = 0;
+  private candidateBlocks = 0;
+  detected: MainsFrequency | 0 = 0;
+
+  constructor(sampleRate: number) {
+    this.blockSize = Math.round(sampleRate * HUM_BLOCK_SECONDS);
+    this.coefficients = {
+      50: 2 * Math.cos((2 * Math.PI * 50) / sampleRate),
+      60: 2 * Math.cos((2 * Math.PI * 60) / sampleRate)
+    };
+  }
+
+  process(x: number): void {
+    for (const mains of [50, 60] as MainsFrequency[]) {
+      const state = this.state[mains];
+      const s0 = x + this.coefficients[mains] * state.s1 - state.s2;
+      state.s2 = state.s1;
+      state.s1 = s0;
+    }
+    this.energy += x * x;
+
+    if (++this.count >= this.blockSize) {
+      this.finishBlock();
+    }
+  }
+
+  private finishBlock(): void {
+    const n = this.count;
+    const meanPower = this.energy / n;
+
+    // A sine of amplitude A has power A²/2 = 2|X|²/N²
+    let strongest: MainsFrequency | 0 = 0;
+    let strongestPower = 0;
+    for (const mains of [50, 60] as MainsFrequency[]) {
+      const { s1, s2 } = this.state[mains];
+      const power = (2 * (s1 * s1 + s2 * s2 - this.coefficients[mains] * s1 * s2)) / (n * n);
+      if (power > strongestPower) {
+        strongestPower = power;
+        strongest = mains;
+      }
+      this.state[mains] = { s1: 0, s2: 0 };
+    }
+    this.energy = 0;
+    this.count = 0;
+
+    const isHum = meanPower > 0 &&
+      strongestPower / meanPower > HUM_POWER_RATIO &&
+      Math.sqrt(strongestPower) > HUM_MIN_LEVEL;
+    const heard = isHum ? strongest : 0;
+
+    this.candidateBlocks = heard === this.candidate ? this.candidateBlocks + 1 : 1;
+    this.candidate = heard;
+    if (this.candidateBlocks >= HUM_BLOCKS) {
+      this.detected = heard;
+    }
+  }
+}
+
+export class InputFilterChain {
+  private dcX1 = 0;
+  private dcY1 = 0;
+  private readonly highPass: Biquad | null;
+  private readonly lowPass: Biquad | null;
+  private readonly humDetector: HumDetector;
+  private notch: Biquad | null = null;
+  private notchFrequency: MainsFrequency | 0 = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    minFrequency: number = DEFAULT_MIN_FREQUENCY,
+    maxFrequency: number = DEFAULT_MAX_FREQUENCY,
+    private readonly options: InputFilterOptions = DEFAULT_INPUT_FILTERS
+  ) {
+    const lowPassFrequency = Math.min(sampleRate * 0.45, maxFrequency * LOW_PASS_HARMONICS);
+    this.highPass = options.bandPass ? Biquad.highPass(sampleRate, minFrequency * HIGH_PASS_RATIO) : null;
+    this.lowPass = options.bandPass ? Biquad.lowPass(sampleRate, lowPassFrequency) : null;
+    this.humDetector = new HumDetector(sampleRate);
+  }
+
+  // Mains frequency of the hum currently heard in the input, 0 when there is none
+  get humFrequency(): MainsFrequency | 0 {
+    return this.humDetector.detected;
+  }
+
+  // Filter input into output; both must have the same length and may be the same array
+  process(input: Float32Array, output: Float32Array): void {
+    this.updateNotch();
+
+    for (let i = 0; i < input.length; i++) {
+      let x = input[i];
+
+      if (this.options.dcBlock) {
+        const y = x - this.dcX1 + DC_BLOCKER_POLE * this.dcY1;
+        this.dcX1 = x;
+        this.dcY1 = y;
+        x = y;
+      }
+
+      // Listen for hum before the notch removes it, so the warning stays up
+      this.humDetector.process(x);
+
+      if (this.notch) x = this.notch.process(x);
+      if (this.highPass) x = this.highPass.process(x);
+      if (this.lowPass) x = this.lowPass.process(x);
+
+      output[i] = x;
+    }
+  }
+
+  private updateNotch(): void {
+    const mode = this.options.humNotch;
+    const frequency = mode === 'off' ? 0 : mode === 'auto' ? this.humDetector.detected : mode;
+    if (frequency === this.notchFrequency) return;
+
+    this.notchFrequency = frequency;
+    this.notch = frequency ? Biquad.notch(this.sampleRate, frequency, NOTCH_Q) : null;
+  }
+}
@@ -5,7 +5,9 @@ export * from './audio.common';
 
 export class AudioRecorder extends AudioRecorderCommon {
   private audioRecord: android.media.AudioRecord | null = null;
-  private audioData: any = null;
+  private byteBuffer: java.nio.ByteBuffer | null = null;
+  private pcmData: Int16Array | null = null;
+  private floatData: Float32Array | null = null;
 
   constructor(options?: AudioRecorderOptions) {
     super(options);
@@ -55,54 +57,48 @@ export class AudioRecorder extends AudioRecorderCommon {
     if (this._isRecording) return;
 
     try {
-      const audioSource = android.media.MediaRecorder.AudioSource.MIC;
-      const channelConfig = android.media.AudioFormat.CHANNEL_IN_MONO;
-      const audioFormat = android.media.AudioFormat.ENCODING_PCM_16BIT;
-      
-      const minBufferSize = android.media.AudioRecord.getMinBufferSize(
-        this.sampleRate,
-        channelConfig,
-        audioFormat
-      );
-      
-      const effectiveBufferSize = Math.max(this.bufferSize, minBufferSize);
-      const recordBufferSize = Math.max(effectiveBufferSize * 2, minBufferSize);
-      
-      this.audioRecord = new android.media.AudioRecord(
-        audioSource,
-        this.sampleRate,
-        channelConfig,
-        audioFormat,
-        recordBufferSize
-      );
+      // Read small fixed chunks; windows and hops are assembled in the ring
+      // buffer, so they can change without restarting the recording
+      const readSize = this.readSize;
 
-      if (this.audioRecord.getState() !== android.media.AudioRecord.STATE_INITIALIZED) {
+      this.audioRecord = this.createAudioRecord();
+      if (!this.audioRecord) {
         console.error('AudioRecord failed to initialize');
         return;
       }
+      this.setSampleRate(this.audioRecord.getSampleRate());
 
-      this.audioData = Array.create('short', effectiveBufferSize);
+      // Read into a direct buffer shared with JS, so samples never cross the
+      // bridge one by one, and convert into a Float32Array reused every read
+      this.byteBuffer = java.nio.ByteBuffer.allocateDirect(readSize * 2);
+      this.byteBuffer.order(java.nio.ByteOrder.nativeOrder());
+      this.pcmData = new Int16Array(ArrayBuffer.from(this.byteBuffer));
+      this.floatData = new Float32Array(readSize);
+      this.clearSamples();
 
       const listener = new android.media.AudioRecord.OnRecordPositionUpdateListener({
         onMarkerReached: (_recorder: android.media.AudioRecord) => {
           // Not used
         },
         onPeriodicNotification: (recorder: android.media.AudioRecord) => {
-          if (!this._isRecording || !this.audioDataCallback) return;
-          
-          const readResult = recorder.read(this.audioData, 0, effectiveBufferSize);
-          if (readResult > 0) {
-            const floatData: number[] = new Array(readResult);
+          if (!this._isRecording) return;
+          if (!this.byteBuffer || !this.pcmData || !this.floatData) return;
+
+          const bytesRead = recorder.read(this.byteBuffer, readSize * 2);
+          if (bytesRead > 0) {
+            const readResult = bytesRead >> 1;
+            const pcmData = this.pcmData;
+            const floatData = this.floatData;
             for (let i = 0; i < readResult; i++) {
-              floatData[i] = this.audioData[i] / 32768.0;
+              floatData[i] = pcmData[i] / 32768.0;
             }
-            this.audioDataCallback(floatData);
+            this.pushSamples(readResult === floatData.length ? floatData : floatData.subarray(0, readResult));
           }
         }
       });
 
       this.audioRecord.setRecordPositionUpdateListener(listener);
-      this.audioRecord.setPositionNotificationPeriod(effectiveBufferSize);
+      this.audioRecord.setPositionNotificationPeriod(readSize);
 
       this.audioRecord.startRecording();
       this._isRecording = true;
@@ -111,6 +107,34 @@ export class AudioRecorder extends AudioRecorderCommon {
     }
   }
 
+  // Only 44100 Hz is guaranteed on every device, so fall back through the
+  // common rates when the preferred one is refused
+  private createAudioRecord(): android.media.AudioRecord | null {
+    const audioSource = android.media.MediaRecorder.AudioSource.MIC;
+    const channelConfig = android.media.AudioFormat.CHANNEL_IN_MONO;
+    const audioFormat = android.media.AudioFormat.ENCODING_PCM_16BIT;
+    const sampleRates = [this.preferredSampleRate, 44100, 48000, 22050, 16000]
+      .filter((rate, index, rates) => rates.indexOf(rate) === index);
+
+    for (const sampleRate of sampleRates) {
+      const minBufferSize = android.media.AudioRecord.getMinBufferSize(sampleRate, channelConfig, audioFormat);
+      if (minBufferSize <= 0) continue;
+
+      const audioRecord = new android.media.AudioRecord(
+        audioSource,
+        sampleRate,
+        channelConfig,
+        audioFormat,
+        Math.max(this.readSize * 16, minBufferSize) // bytes: eight reads of 16-bit samples
+      );
+      if (audioRecord.getState() === android.media.AudioRecord.STATE_INITIALIZED) {
+        return audioRecord;
+      }
+      audioRecord.release();
+    }
+    return null;
+  }
+
   stop(): void {
     if (!this._isRecording) return;
 
@@ -124,7 +148,9 @@ export class AudioRecorder extends AudioRecorderCommon {
       this.audioRecord = null;
     }
 
-    this.audioData = null;
+    this.byteBuffer = null;
+    this.pcmData = null;
+    this.floatData = null;
     this._isRecording = false;
   }
 
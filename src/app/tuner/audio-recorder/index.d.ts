@@ -1,6 +1,7 @@
 import { AudioRecorderCommon, AudioRecorderOptions, AudioDataCallback, PitchData } from './audio.common';
 
-export { AudioRecorderCommon, AudioRecorderOptions, AudioDataCallback, PitchData, NOTE_NAMES } from './audio.common';
+export { AudioRecorderCommon, AudioRecorderOptions, AudioDataCallback, PitchData, SpectrumData, StringEstimate, DrumPeaks, DRUM_MIN_FREQUENCY, DRUM_MAX_FREQUENCY, InharmonicityEstimate, PitchAnalyzer, rms, PitchWorkerClient, OnsetDetector, InputFilterOptions, HumNotchMode, MainsFrequency, DEFAULT_INPUT_FILTERS, NOTE_NAMES, semitoneToNote, semitoneOffset, noteToFrequency, Temperament, TEMPERAMENT_INFO, temperamentOffsets, minimumBufferSize } from './audio.common';
+export { PitchAlgorithm, PitchDetector, PITCH_ALGORITHM_INFO, createPitchDetector } from './detectors';
 
 export declare class AudioRecorder extends AudioRecorderCommon {
   constructor(options?: AudioRecorderOptions);
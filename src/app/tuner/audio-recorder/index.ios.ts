@@ -4,6 +4,7 @@ export * from './audio.common';
 
 export class AudioRecorder extends AudioRecorderCommon {
   private audioEngine: AVAudioEngine | null = null;
+  private floatData = new Float32Array(0);
 
   constructor(options?: AudioRecorderOptions) {
     super(options);
@@ -27,6 +28,8 @@ export class AudioRecorder extends AudioRecorderCommon {
         AVAudioSessionModeMeasurement,
         AVAudioSessionCategoryOptions.DefaultToSpeaker
       );
+      // Ask for the preferred rate; the hardware may still pick its own
+      audioSession.setPreferredSampleRateError(this.preferredSampleRate);
       audioSession.setActiveError(true);
 
       // Use AVAudioEngine for real-time audio processing
@@ -34,26 +37,32 @@ export class AudioRecorder extends AudioRecorderCommon {
       const inputNode = this.audioEngine.inputNode;
       const format = inputNode.outputFormatForBus(0);
       
+      // Often 48000 Hz regardless of what was asked for
+      this.setSampleRate(format.sampleRate);
+      this.clearSamples();
+
+      // Ask for small fixed taps; iOS may deliver a different size, which the
+      // ring buffer absorbs along with any window or hop change
       inputNode.installTapOnBusBufferSizeFormatBlock(
         0,
-        this.bufferSize,
+        this.readSize,
         format,
         (buffer: AVAudioPCMBuffer, time: AVAudioTime) => {
-          if (!this.audioDataCallback) {
-            console.log('Audio data callback is not set, skipping audio processing');
-            return;
-          } 
           const channelData = (buffer.floatChannelData as interop.Reference<any>).value;
           if (channelData) {
             const data = channelData[0];
             const frameLength = buffer.frameLength;
-            const floatData: number[] = [];
-            
+
+            // Reuse one buffer across taps; it only grows if the tap size changes
+            if (this.floatData.length !== frameLength) {
+              this.floatData = new Float32Array(frameLength);
+            }
+            const floatData = this.floatData;
             for (let i = 0; i < frameLength; i++) {
-              floatData.push(data[i]);
+              floatData[i] = data[i];
             }
             
-            this.audioDataCallback(floatData);
+            this.pushSamples(floatData);
           }
         }
       );
@@ -0,0 +1,122 @@
+import { goertzelPower, hannWindow } from './fft';
+import { parabolicOffset } from './detectors';
+
+/**
+ * Inharmonicity measurement
+ * Stiff strings such as a piano's sound partials slightly sharp of the
+ * harmonic series: f_n = n * f0 * sqrt(1 + B * n^2). Each partial is searched
+ * for near where the current estimate of B puts it, then f0 and B are fitted
+ * by least squares on (f_n / n)^2 = f0^2 + f0^2 * B * n^2.
+ */
+
+export interface InharmonicityEstimate {
+  fundamental: number; // f0 of the ideal flexible string, Hz
+  coefficient: number; // Inharmonicity coefficient B
+  partials: number;    // Partials found and used in the fit
+}
+
+const MAX_PARTIAL = 12;
+const MIN_PARTIALS = 4;
+const SEARCH_CENTS = 40;
+const STEP_CENTS = 2;
+const PARTIAL_FLOOR = 1e-4; // Partials 40 dB below the first are treated as missing
+
+export class InharmonicityMeter {
+  // Window and windowed copy are kept between calls of the same length
+  private window: Float64Array = new Float64Array(0);
+  private windowed: Float64Array = new Float64Array(0);
+
+  measure(audioData: Float32Array, sampleRate: number, frequency: number): InharmonicityEstimate | null {
+    const bufferSize = audioData.length;
+    if (this.window.length !== bufferSize) {
+      this.window = hannWindow(bufferSize);
+      this.windowed = new Float64Array(bufferSize);
+    }
+    const windowed = this.windowed;
+    for (let i = 0; i < bufferSize; i++) {
+      windowed[i] = audioData[i] * this.window[i];
+    }
+
+    // Partials closer together than the window's main lobe cannot be told apart
+    const mainLobeWidth = (2 * sampleRate) / bufferSize;
+    if (frequency < mainLobeWidth * 2) return null;
+
+    const first = findPartial(windowed, sampleRate, frequency);
+    if (!first) return null;
+
+    const partials = [{ n: 1, frequency: first.frequency }];
+    let fundamental = first.frequency;
+    let coefficient = 0;
+
+    for (let n = 2; n <= MAX_PARTIAL; n++) {
+      const expected = n * fundamental * Math.sqrt(1 + coefficient * n * n);
+      if (expected > sampleRate * 0.45) break;
+
+      const partial = findPartial(windowed, sampleRate, expected);
+      if (!partial || partial.power < first.power * PARTIAL_FLOOR) continue;
+      partials.push({ n, frequency: partial.frequency });
+
+      if (partials.length >= 3) {
+        const fit = fitInharmonicity(partials);
+        if (fit) {
+          fundamental = fit.fundamental;
+          coefficient = fit.coefficient;
+        }
+      }
+    }
+
+    if (partials.length < MIN_PARTIALS) return null;
+    return { fundamental, coefficient, partials: partials.length };
+  }
+}
+
+// Strongest frequency within the search range around the expected one,
+// null when the peak sits on the edge of the range
+function findPartial(windowed: Float64Array, sampleRate: number, expected: number): { frequency: number; power: number } | null {
+  const powerAt = (cents: number) => goertzelPower(windowed, expected * Math.pow(2, cents / 1200), sampleRate);
+
+  let bestCents = 0;
+  let bestPower = -1;
+  for (let cents = -SEARCH_CENTS; cents <= SEARCH_CENTS; cents += STEP_CENTS) {
+    const power = powerAt(cents);
+    if (power > bestPower) {
+      bestPower = power;
+      bestCents = cents;
+    }
+  }
+  if (Math.abs(bestCents) >= SEARCH_CENTS || bestPower <= 0) return null;
+
+  const offset = parabolicOffset(
+    Math.log(powerAt(bestCents - STEP_CENTS) + 1e-20),
+    Math.log(bestPower),
+    Math.log(powerAt(bestCents + STEP_CENTS) + 1e-20)
+  );
+  const cents = bestCents + offset * STEP_CENTS;
+  return { frequency: expected * Math.pow(2, cents / 1200), power: bestPower };
+}
+
+// Least-squares line through (n^2, (f_n / n)^2): intercept f0^2, slope f0^2 * B
+function fitInharmonicity(partials: { n: number; frequency: number }[]): { fundamental: number; coefficient: number } | null {
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumXY = 0;
+  for (const { n, frequency } of partials) {
+    const x = n * n;
+    const y = (frequency / n) ** 2;
+    sumX += x;
+    sumY += y;
+    sumXX += x * x;
+    sumXY += x * y;
+  }
+
+  const count = partials.length;
+  const denominator = count * sumXX - sumX * sumX;
+  if (denominator === 0) return null;
+
+  const slope = (count * sumXY - sumX * sumY) / denominator;
+  const intercept = (sumY - slope * sumX) / count;
+  if (intercept <= 0) return null;
+
+  return { fundamental: Math.sqrt(intercept), coefficient: Math.max(0, slope / intercept) };
+}
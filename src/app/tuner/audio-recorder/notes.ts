@@ -0,0 +1,62 @@
+import type { PitchData } from './audio.common';
+
+// Musical notes
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Convert frequency to musical note. Offsets, indexed like NOTE_NAMES, move
+// each note's target away from equal temperament by that many cents
+export function frequencyToNote(frequency: number, referencePitch: number = 440, offsets?: number[]): Omit<PitchData, 'amplitude' | 'confidence'> {
+  // Calculate semitones from A4
+  const semitonesFromA4 = 12 * Math.log2(frequency / referencePitch);
+  
+  // Round to nearest semitone
+  let roundedSemitones = Math.round(semitonesFromA4);
+  
+  // Calculate cents deviation (100 cents = 1 semitone), unrounded so
+  // displays can choose their own precision
+  let cents = (semitonesFromA4 - roundedSemitones) * 100 - semitoneOffset(roundedSemitones, offsets);
+
+  // A tempered neighbour may sit closer than the equal-tempered nearest note
+  if (offsets) {
+    for (const neighbour of [roundedSemitones - 1, roundedSemitones + 1]) {
+      const neighbourCents = (semitonesFromA4 - neighbour) * 100 - semitoneOffset(neighbour, offsets);
+      if (Math.abs(neighbourCents) < Math.abs(cents)) {
+        roundedSemitones = neighbour;
+        cents = neighbourCents;
+      }
+    }
+  }
+  
+  return {
+    frequency,
+    ...semitoneToNote(roundedSemitones),
+    cents
+  };
+}
+
+// Offset in cents of the note a whole number of semitones from A4
+export function semitoneOffset(semitonesFromA4: number, offsets?: number[]): number {
+  if (!offsets) return 0;
+  return offsets[(((semitonesFromA4 + 9) % 12) + 12) % 12] ?? 0;
+}
+
+// Note name and octave of a whole number of semitones from A4
+export function semitoneToNote(semitonesFromA4: number): { note: string; octave: number } {
+  // Calculate note index and octave
+  // A4 is the 9th note (index 9) of octave 4
+  const noteIndexFromC0 = semitonesFromA4 + 9 + (4 * 12);
+  const octave = Math.floor(noteIndexFromC0 / 12);
+  const noteIndex = ((noteIndexFromC0 % 12) + 12) % 12;
+
+  return { note: NOTE_NAMES[noteIndex], octave };
+}
+
+// Get expected frequency for a note, tempered by any offsets
+export function noteToFrequency(note: string, octave: number, referencePitch: number = 440, offsets?: number[]): number {
+  const noteIndex = NOTE_NAMES.indexOf(note);
+  if (noteIndex === -1) return 0;
+  
+  // Semitones from A4
+  const semitonesFromA4 = (octave - 4) * 12 + (noteIndex - 9);
+  return referencePitch * Math.pow(2, (semitonesFromA4 + semitoneOffset(semitonesFromA4, offsets) / 100) / 12);
+}
@@ -0,0 +1,152 @@
+import { goertzelPower, hannWindow } from './fft';
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, fitPeriod } from './detectors';
+
+/**
+ * Octave-error correction
+ * Confirms a detector's estimate against its sub-multiples and its double.
+ * A true fundamental f0 has energy at the partials of f0 that its octave does
+ * not share (f0, 3f0, 5f0...), even when the pickup barely reproduces f0
+ * itself, so those partials decide between the candidates. Octave jumps
+ * within a sustained note must also persist for a few frames to be accepted.
+ */
+
+const PARTIALS = 8;
+const SUBHARMONIC_EVIDENCE = 0.05;   // Own/shared partial energy needed to drop to a sub-multiple
+const SUBHARMONIC_PERIODICITY = 0.9; // Sub-multiple lag must correlate nearly as well as the detected one
+const OCTAVE_UP_EVIDENCE = 0.03;     // Odd/even partial energy below which the estimate is a subharmonic
+const OCTAVE_TOLERANCE_CENTS = 60;
+const OCTAVE_JUMP_FRAMES = 3;
+
+export class OctaveTracker {
+  private window: Float64Array | null = null;
+  private windowed: Float64Array | null = null;
+  private lastFrequency = 0;
+  private pendingFrequency = 0;
+  private pendingFrames = 0;
+
+  constructor(
+    private readonly minFrequency: number = DEFAULT_MIN_FREQUENCY,
+    private readonly maxFrequency: number = DEFAULT_MAX_FREQUENCY
+  ) {}
+
+  correct(audioData: Float32Array, sampleRate: number, frequency: number): number {
+    const confirmed = this.checkHarmonics(audioData, sampleRate, frequency);
+    return this.stabilize(confirmed);
+  }
+
+  // Forget the held octave, e.g. after silence
+  reset(): void {
+    this.lastFrequency = 0;
+    this.pendingFrequency = 0;
+    this.pendingFrames = 0;
+  }
+
+  private checkHarmonics(audioData: Float32Array, sampleRate: number, frequency: number): number {
+    const bufferSize = audioData.length;
+    if (!this.window || this.window.length !== bufferSize) {
+      this.window = hannWindow(bufferSize);
+      this.windowed = new Float64Array(bufferSize);
+    }
+    const windowed = this.windowed!;
+    for (let i = 0; i < bufferSize; i++) {
+      windowed[i] = audioData[i] * this.window[i];
+    }
+
+    const nyquist = sampleRate / 2;
+    const power = (f: number) => (f < nyquist ? goertzelPower(windowed, f, sampleRate) : 0);
+
+    // Did the detector lock onto the 2nd or 3rd harmonic? The real fundamental
+    // would show partials in between the detected ones
+    for (const divisor of [2, 3]) {
+      const candidate = frequency / divisor;
+      if (candidate < this.minFrequency) continue;
+      // A short window cannot resolve a period it does not hold twice
+      const period = sampleRate / candidate;
+      if (fitPeriod(period, bufferSize) < period) continue;
+
+      let own = 0;
+      let shared = 0;
+      for (let k = 1; k <= PARTIALS * divisor; k++) {
+        const p = power(candidate * k);
+        if (k % divisor === 0) {
+          shared += p;
+        } else {
+          own += p;
+        }
+      }
+
+      if (shared > 0 && own / shared > SUBHARMONIC_EVIDENCE &&
+          this.periodicity(audioData, sampleRate, candidate) >= SUBHARMONIC_PERIODICITY * this.periodicity(audioData, sampleRate, frequency)) {
+        return candidate;
+      }
+    }
+
+    // Did it lock onto a subharmonic? Then the odd partials are empty
+    if (frequency * 2 <= this.maxFrequency) {
+      let odd = 0;
+      let even = 0;
+      for (let k = 1; k <= PARTIALS; k++) {
+        const p = power(frequency * k);
+        if (k % 2 === 0) {
+          even += p;
+        } else {
+          odd += p;
+        }
+      }
+      if (even > 0 && odd / even < OCTAVE_UP_EVIDENCE) {
+        return frequency * 2;
+      }
+    }
+
+    return frequency;
+  }
+
+  // Normalized autocorrelation at the period of the given frequency
+  private periodicity(audioData: Float32Array, sampleRate: number, frequency: number): number {
+    const lag = Math.round(sampleRate / frequency);
+    let acf = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < audioData.length; i++) {
+      acf += audioData[i] * audioData[i + lag];
+      energyA += audioData[i] * audioData[i];
+      energyB += audioData[i + lag] * audioData[i + lag];
+    }
+    const energy = Math.sqrt(energyA * energyB);
+    return energy > 0 ? acf / energy : 0;
+  }
+
+  // Hold the octave of a sustained note until a jump has lasted several frames
+  private stabilize(frequency: number): number {
+    if (this.lastFrequency === 0) {
+      this.lastFrequency = frequency;
+      return frequency;
+    }
+
+    const cents = 1200 * Math.log2(frequency / this.lastFrequency);
+    const octaves = Math.round(cents / 1200);
+
+    if (octaves === 0 || Math.abs(cents - octaves * 1200) > OCTAVE_TOLERANCE_CENTS) {
+      // Same octave or a different note altogether
+      this.pendingFrames = 0;
+      this.lastFrequency = frequency;
+      return frequency;
+    }
+
+    const samePending = this.pendingFrequency > 0 &&
+      Math.abs(1200 * Math.log2(frequency / this.pendingFrequency)) < OCTAVE_TOLERANCE_CENTS;
+    this.pendingFrequency = frequency;
+    this.pendingFrames = samePending ? this.pendingFrames + 1 : 1;
+
+    if (this.pendingFrames >= OCTAVE_JUMP_FRAMES) {
+      this.pendingFrames = 0;
+      this.lastFrequency = frequency;
+      return frequency;
+    }
+
+    // Report the jump folded back into the held octave
+    const folded = frequency / Math.pow(2, octaves);
+    this.lastFrequency = folded;
+    return folded;
+  }
+}
@@ -0,0 +1,73 @@
+import type { SpectrumData } from './audio.common';
+import { rms } from './pitch-analyzer';
+
+/**
+ * Note onset detection
+ * Half-wave rectified spectral flux between consecutive windows, relative to
+ * the window's total magnitude, against an adaptive threshold: the median of
+ * recent flux plus a fixed margin. A pick attack adds energy across the whole
+ * spectrum at once, while a ringing string only changes slowly.
+ */
+
+const MIN_FREQUENCY = 30;       // Ignore rumble and DC drift
+const MAX_FREQUENCY = 5000;     // Pick noise lives well below this
+const FLUX_HISTORY = 16;
+const FLUX_MARGIN = 0.3;        // Relative flux above the recent median that counts as an attack
+const REFRACTORY_SECONDS = 0.1; // One attack per pluck, not one per window
+
+export class OnsetDetector {
+  private previous: Float32Array | null = null;
+  private history: number[] = [];
+  private secondsSinceOnset = Infinity;
+
+  // Returns the onset strength (relative flux) when this window starts a new
+  // attack, otherwise 0. frameSeconds is the time since the previous window
+  process(spectrum: SpectrumData, audioData: Float32Array, noiseThreshold: number, frameSeconds: number): number {
+    const { magnitudes, binWidth } = spectrum;
+    const previous = this.previous;
+    this.secondsSinceOnset += frameSeconds;
+
+    if (!previous || previous.length !== magnitudes.length) {
+      this.previous = magnitudes.slice();
+      return 0;
+    }
+
+    const fromBin = Math.max(1, Math.floor(MIN_FREQUENCY / binWidth));
+    const toBin = Math.min(magnitudes.length - 1, Math.ceil(MAX_FREQUENCY / binWidth));
+    let rise = 0;
+    let total = 0;
+    for (let k = fromBin; k <= toBin; k++) {
+      const delta = magnitudes[k] - previous[k];
+      if (delta > 0) rise += delta;
+      total += magnitudes[k];
+    }
+    previous.set(magnitudes);
+
+    const flux = total > 0 ? rise / total : 0;
+    const threshold = median(this.history) + FLUX_MARGIN;
+    this.history.push(flux);
+    if (this.history.length > FLUX_HISTORY) {
+      this.history.shift();
+    }
+
+    if (flux < threshold || this.secondsSinceOnset < REFRACTORY_SECONDS || rms(audioData) < noiseThreshold) {
+      return 0;
+    }
+
+    this.secondsSinceOnset = 0;
+    return flux;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.history = [];
+    this.secondsSinceOnset = Infinity;
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,87 @@
+import { DEFAULT_MAX_FREQUENCY, DEFAULT_MIN_FREQUENCY, PitchAlgorithm, PitchDetector, createPitchDetector } from './detectors';
+import { OctaveTracker } from './octave-correction';
+import { frequencyToNote } from './notes';
+import type { PitchData } from './audio.common';
+
+/**
+ * Pitch analysis
+ * Level gate, detector, octave tracking and note naming for one buffer. It has
+ * no platform code, so the recorder and the pitch worker share it as is.
+ */
+
+export interface PitchAnalyzerOptions {
+  pitchAlgorithm?: PitchAlgorithm;
+  minFrequency?: number;
+  maxFrequency?: number;
+}
+
+export class PitchAnalyzer {
+  private pitchAlgorithm: PitchAlgorithm;
+  private minFrequency: number;
+  private maxFrequency: number;
+  private pitchDetector: PitchDetector;
+  private octaveTracker: OctaveTracker;
+
+  constructor(private readonly sampleRate: number, options?: PitchAnalyzerOptions) {
+    this.pitchAlgorithm = options?.pitchAlgorithm ?? 'autocorrelation';
+    this.minFrequency = options?.minFrequency ?? DEFAULT_MIN_FREQUENCY;
+    this.maxFrequency = options?.maxFrequency ?? DEFAULT_MAX_FREQUENCY;
+    this.pitchDetector = createPitchDetector(this.pitchAlgorithm, this.minFrequency, this.maxFrequency);
+    this.octaveTracker = new OctaveTracker(this.minFrequency, this.maxFrequency);
+  }
+
+  setPitchAlgorithm(algorithm: PitchAlgorithm): void {
+    this.pitchAlgorithm = algorithm;
+    this.pitchDetector = createPitchDetector(algorithm, this.minFrequency, this.maxFrequency);
+  }
+
+  setFrequencyRange(minFrequency: number, maxFrequency: number): void {
+    this.minFrequency = minFrequency;
+    this.maxFrequency = maxFrequency;
+    this.pitchDetector = createPitchDetector(this.pitchAlgorithm, minFrequency, maxFrequency);
+    this.octaveTracker = new OctaveTracker(minFrequency, maxFrequency);
+  }
+
+  detectPitch(audioData: Float32Array, noiseThreshold: number = 0.01): { frequency: number; amplitude: number; clarity: number } | null {
+    // Calculate amplitude (RMS)
+    const amplitude = rms(audioData);
+
+    // Check if signal is above noise threshold
+    if (amplitude < noiseThreshold) {
+      this.octaveTracker.reset();
+      return null;
+    }
+
+    // Detect pitch using the selected algorithm
+    const estimate = this.pitchDetector.detect(audioData, this.sampleRate);
+    
+    if (estimate) {
+      // Confirm the octave against the harmonic series and the previous frames
+      const frequency = this.octaveTracker.correct(audioData, this.sampleRate, estimate.frequency);
+      return { frequency, amplitude, clarity: estimate.clarity };
+    }
+    
+    return null;
+  }
+
+  // Detection plus note naming, the full result the UI displays
+  analyze(audioData: Float32Array, noiseThreshold: number, referencePitch: number, temperament?: number[]): PitchData | null {
+    const result = this.detectPitch(audioData, noiseThreshold);
+    if (!result) return null;
+
+    return {
+      ...frequencyToNote(result.frequency, referencePitch, temperament),
+      amplitude: result.amplitude,
+      confidence: result.clarity
+    };
+  }
+}
+
+// Root mean square level of a buffer
+export function rms(audioData: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < audioData.length; i++) {
+    sum += audioData[i] * audioData[i];
+  }
+  return audioData.length > 0 ? Math.sqrt(sum / audioData.length) : 0;
+}
@@ -0,0 +1,74 @@
+import type { PitchData } from './audio.common';
+import { PitchWorkerConfig, PitchWorkerRequest, PitchWorkerResponse } from './pitch-worker.interface';
+
+/**
+ * Main-thread side of the pitch worker
+ * Keeps one buffer in flight at a time; buffers that arrive while the worker
+ * is busy are dropped, so a slow device lags by at most one buffer.
+ */
+export class PitchWorkerClient {
+  private busy = false;
+  // Reused for every buffer, so posting allocates nothing beyond the serialized message
+  private samples: number[] = [];
+  private resultCallback: ((pitchData: PitchData | null) => void) | null = null;
+  private errorCallback: ((error: unknown) => void) | null = null;
+
+  private constructor(private readonly worker: Worker) {
+    worker.onmessage = (message: MessageEvent<PitchWorkerResponse>) => {
+      this.busy = false;
+      this.resultCallback?.(message.data.pitchData);
+    };
+    worker.onerror = (error) => {
+      this.busy = false;
+      this.errorCallback?.(error);
+    };
+  }
+
+  // Returns null when workers are not available on this platform
+  static create(): PitchWorkerClient | null {
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      return new PitchWorkerClient(new Worker(new URL('./pitch.worker', import.meta.url)));
+    } catch (error) {
+      console.error('Pitch worker unavailable, detecting on the main thread:', error);
+      return null;
+    }
+  }
+
+  onResult(callback: ((pitchData: PitchData | null) => void) | null): void {
+    this.resultCallback = callback;
+  }
+
+  onError(callback: ((error: unknown) => void) | null): void {
+    this.errorCallback = callback;
+  }
+
+  configure(config: PitchWorkerConfig): void {
+    this.post({ type: 'configure', config });
+  }
+
+  // Returns false when the buffer was dropped because the worker is busy
+  analyze(audioData: Float32Array, noiseThreshold: number, referencePitch: number, temperament?: number[]): boolean {
+    if (this.busy) return false;
+
+    this.busy = true;
+    const samples = this.samples;
+    samples.length = audioData.length;
+    for (let i = 0; i < audioData.length; i++) {
+      samples[i] = audioData[i];
+    }
+    this.post({ type: 'analyze', samples, noiseThreshold, referencePitch, temperament });
+    return true;
+  }
+
+  terminate(): void {
+    this.resultCallback = null;
+    this.errorCallback = null;
+    this.worker.terminate();
+  }
+
+  private post(request: PitchWorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+}
@@ -0,0 +1,21 @@
+import type { PitchAlgorithm } from './detectors';
+import type { PitchData } from './audio.common';
+
+export interface PitchWorkerConfig {
+  sampleRate: number;
+  pitchAlgorithm: PitchAlgorithm;
+  minFrequency: number;
+  maxFrequency: number;
+}
+
+// Messages posted to the worker. Samples travel as a plain array because
+// NativeScript serializes worker messages as JSON, which drops typed arrays
+export type PitchWorkerRequest =
+  | { type: 'configure'; config: PitchWorkerConfig }
+  | { type: 'analyze'; samples: number[]; noiseThreshold: number; referencePitch: number; temperament?: number[] };
+
+// Messages posted back, one per analyze request
+export interface PitchWorkerResponse {
+  type: 'pitch';
+  pitchData: PitchData | null;
+}
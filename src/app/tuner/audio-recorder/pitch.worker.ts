@@ -0,0 +1,43 @@
+import '@nativescript/core/globals';
+import { PitchAnalyzer } from './pitch-analyzer';
+import { PitchWorkerRequest, PitchWorkerResponse } from './pitch-worker.interface';
+
+/**
+ * Pitch worker
+ * Runs PitchAnalyzer off the UI thread and answers every analyze request
+ */
+
+// The worker's global scope, narrowed to the messages this worker exchanges
+interface PitchWorkerScope {
+  onmessage: ((message: MessageEvent<PitchWorkerRequest>) => void) | null;
+  postMessage(response: PitchWorkerResponse): void;
+}
+declare const self: PitchWorkerScope;
+
+let analyzer: PitchAnalyzer | null = null;
+let samples = new Float32Array(0);
+
+self.onmessage = (message: MessageEvent<PitchWorkerRequest>) => {
+  const request = message.data;
+
+  switch (request.type) {
+    case 'configure':
+      analyzer = new PitchAnalyzer(request.config.sampleRate, request.config);
+      break;
+
+    case 'analyze': {
+      let pitchData = null;
+      if (analyzer) {
+        if (samples.length !== request.samples.length) {
+          samples = new Float32Array(request.samples.length);
+        }
+        samples.set(request.samples);
+        pitchData = analyzer.analyze(samples, request.noiseThreshold, request.referencePitch, request.temperament);
+      }
+
+      const response: PitchWorkerResponse = { type: 'pitch', pitchData };
+      self.postMessage(response);
+      break;
+    }
+  }
+};
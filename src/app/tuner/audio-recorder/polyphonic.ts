@@ -0,0 +1,128 @@
+import { goertzelPower, hannWindow } from './fft';
+
+/**
+ * Polyphonic string estimation
+ * For each open-string target, scans ±50 cents for the offset whose first few
+ * harmonics carry the most energy. Goertzel evaluates the windowed buffer at
+ * arbitrary frequencies, so resolution is not limited to FFT bin spacing.
+ * Partials that sit inside another string's main lobe (E2's third harmonic
+ * and B3, for example) are left out of that string's score.
+ */
+
+export interface StringEstimate {
+  frequency: number; // Estimated frequency, 0 when the string was not heard
+  cents: number;     // Deviation from the target frequency
+  strength: number;  // Harmonic energy relative to the loudest string (0-1)
+  detected: boolean;
+}
+
+const SCAN_RANGE_CENTS = 50;
+const COARSE_STEP_CENTS = 10;
+const FINE_STEP_CENTS = 2;
+const HARMONIC_WEIGHTS = [1, 0.8, 0.6];
+const MIN_RELATIVE_STRENGTH = 0.08;
+const COLLISION_PARTIALS = 6;
+const HANN_MAIN_LOBE_BINS = 2;
+
+export class StringEstimator {
+  // Window and windowed copy are kept between strums of the same length
+  private window: Float64Array = new Float64Array(0);
+  private windowed: Float64Array = new Float64Array(0);
+
+  estimate(audioData: Float32Array, sampleRate: number, targetFrequencies: number[]): StringEstimate[] {
+    const bufferSize = audioData.length;
+    if (this.window.length !== bufferSize) {
+      this.window = hannWindow(bufferSize);
+      this.windowed = new Float64Array(bufferSize);
+    }
+    const window = this.window;
+    const windowed = this.windowed;
+    for (let i = 0; i < bufferSize; i++) {
+      windowed[i] = audioData[i] * window[i];
+    }
+
+    const mainLobeWidth = (HANN_MAIN_LOBE_BINS * sampleRate) / bufferSize;
+
+    const harmonicScore = (frequency: number, harmonics: number[]): number => {
+      let score = 0;
+      for (const harmonic of harmonics) {
+        score += HARMONIC_WEIGHTS[harmonic - 1] * goertzelPower(windowed, frequency * harmonic, sampleRate);
+      }
+      return score;
+    };
+
+    const scans = targetFrequencies.map((target, index) => {
+      const harmonics = cleanHarmonics(target, targetFrequencies.filter((_, other) => other !== index), mainLobeWidth, sampleRate);
+      const scoreAt = (cents: number) => harmonicScore(target * Math.pow(2, cents / 1200), harmonics);
+
+      // Coarse pass across the whole range, then a fine pass around the winner
+      let bestCents = 0;
+      let bestScore = -1;
+      for (let cents = -SCAN_RANGE_CENTS; cents <= SCAN_RANGE_CENTS; cents += COARSE_STEP_CENTS) {
+        const score = scoreAt(cents);
+        if (score > bestScore) {
+          bestScore = score;
+          bestCents = cents;
+        }
+      }
+
+      const fineFrom = Math.max(-SCAN_RANGE_CENTS, bestCents - COARSE_STEP_CENTS);
+      const fineTo = Math.min(SCAN_RANGE_CENTS, bestCents + COARSE_STEP_CENTS);
+      for (let cents = fineFrom; cents <= fineTo; cents += FINE_STEP_CENTS) {
+        const score = scoreAt(cents);
+        if (score > bestScore) {
+          bestScore = score;
+          bestCents = cents;
+        }
+      }
+
+      // A peak on the edge of the scan means the string is further out than we can read
+      const onEdge = Math.abs(bestCents) >= SCAN_RANGE_CENTS;
+
+      // Parabolic refinement between the neighbouring fine steps
+      if (!onEdge) {
+        const s0 = scoreAt(bestCents - FINE_STEP_CENTS);
+        const s2 = scoreAt(bestCents + FINE_STEP_CENTS);
+        const denominator = s0 - 2 * bestScore + s2;
+        if (denominator < 0) {
+          bestCents += (FINE_STEP_CENTS * (s0 - s2)) / (2 * denominator);
+        }
+      }
+
+      return { target, cents: bestCents, score: bestScore, onEdge };
+    });
+
+    const loudest = Math.max(0, ...scans.map(scan => scan.score));
+
+    return scans.map(scan => {
+      const strength = loudest > 0 ? scan.score / loudest : 0;
+      const detected = !scan.onEdge && strength >= MIN_RELATIVE_STRENGTH;
+      return {
+        frequency: detected ? scan.target * Math.pow(2, scan.cents / 1200) : 0,
+        cents: scan.cents,
+        strength,
+        detected
+      };
+    });
+  }
+}
+
+// Harmonics of a target that no other string's partials overlap; the fundamental is always kept
+function cleanHarmonics(target: number, others: number[], mainLobeWidth: number, sampleRate: number): number[] {
+  const harmonics = [1];
+  for (let harmonic = 2; harmonic <= HARMONIC_WEIGHTS.length; harmonic++) {
+    const partial = target * harmonic;
+    if (partial >= sampleRate / 2) break;
+
+    const collides = others.some(other => {
+      for (let k = 1; k <= COLLISION_PARTIALS; k++) {
+        if (Math.abs(partial - other * k) < mainLobeWidth) return true;
+      }
+      return false;
+    });
+    if (!collides) {
+      harmonics.push(harmonic);
+    }
+  }
+  return harmonics;
+}
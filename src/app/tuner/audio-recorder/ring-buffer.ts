@@ -0,0 +1,49 @@
+/**
+ * Fixed-size ring buffer of audio samples
+ * The recorder writes every chunk it reads; analysis copies out the most recent
+ * window, so windows can overlap and be re-analysed at any hop size.
+ */
+export class RingBuffer {
+  private readonly data: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+
+  constructor(readonly capacity: number) {
+    this.data = new Float32Array(capacity);
+  }
+
+  // Samples available to read, up to the capacity
+  get length(): number {
+    return this.filled;
+  }
+
+  push(samples: Float32Array): void {
+    // Only the tail of an oversized chunk can survive
+    const source = samples.length > this.capacity ? samples.subarray(samples.length - this.capacity) : samples;
+
+    const firstPart = Math.min(source.length, this.capacity - this.writeIndex);
+    this.data.set(source.subarray(0, firstPart), this.writeIndex);
+    this.data.set(source.subarray(firstPart), 0);
+
+    this.writeIndex = (this.writeIndex + source.length) % this.capacity;
+    this.filled = Math.min(this.capacity, this.filled + source.length);
+  }
+
+  // Copy the most recent out.length samples, oldest first. Returns false if
+  // not enough samples have been written yet
+  readLatest(out: Float32Array): boolean {
+    const count = out.length;
+    if (count > this.filled) return false;
+
+    const start = (this.writeIndex - count + this.capacity) % this.capacity;
+    const firstPart = Math.min(count, this.capacity - start);
+    out.set(this.data.subarray(start, start + firstPart));
+    out.set(this.data.subarray(0, count - firstPart), firstPart);
+    return true;
+  }
+
+  clear(): void {
+    this.writeIndex = 0;
+    this.filled = 0;
+  }
+}
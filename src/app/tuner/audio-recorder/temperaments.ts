@@ -0,0 +1,73 @@
+import { NOTE_NAMES } from './notes';
+
+/**
+ * Temperaments
+ * Each temperament is a set of twelve scale degrees above its tonic, given in
+ * cents. Turned into per-note offsets from equal temperament, they shift both
+ * the target frequencies and the cents reported against them. A keeps its
+ * equal-tempered pitch, so A4 stays at the reference pitch whatever the tonic.
+ */
+
+export type Temperament = 'equal' | 'just' | 'pythagorean' | 'meantone' | 'werckmeister3' | 'vallotti';
+
+export const TEMPERAMENT_INFO: Record<Temperament, { name: string; description: string }> = {
+  equal: { name: 'Equal', description: 'Twelve equal semitones, the modern standard' },
+  just: { name: 'Just Intonation', description: 'Pure 5-limit intervals from the tonic' },
+  pythagorean: { name: 'Pythagorean', description: 'Pure fifths, wolf between the sharpest and flattest notes' },
+  meantone: { name: 'Quarter-Comma Meantone', description: 'Pure major thirds, narrow fifths' },
+  werckmeister3: { name: 'Werckmeister III', description: 'Well temperament, four fifths narrowed by a quarter comma' },
+  vallotti: { name: 'Vallotti', description: 'Well temperament, six fifths narrowed by a sixth of a comma' }
+};
+
+const PURE_FIFTH = 1200 * Math.log2(3 / 2);
+const MEANTONE_FIFTH = (1200 * Math.log2(5)) / 4;
+const PYTHAGOREAN_COMMA = 12 * PURE_FIFTH - 7 * 1200;
+const JUST_RATIOS = [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8];
+// Regular temperaments run their chain of fifths from three flats to eight sharps,
+// leaving the wolf between the augmented fifth and the minor third
+const FLATS_IN_CHAIN = 3;
+
+// Cents of the twelve degrees above the tonic
+const SCALES: Record<Temperament, number[]> = {
+  equal: Array.from({ length: 12 }, (_, degree) => degree * 100),
+  just: JUST_RATIOS.map(ratio => 1200 * Math.log2(ratio)),
+  pythagorean: chainOfFifths(new Array(11).fill(PURE_FIFTH), FLATS_IN_CHAIN),
+  meantone: chainOfFifths(new Array(11).fill(MEANTONE_FIFTH), FLATS_IN_CHAIN),
+  // From the tonic: the first three fifths and the sixth narrowed, the rest pure
+  werckmeister3: chainOfFifths(
+    [1, 1, 1, 0, 0, 1, 0, 0, 0, 0, 0].map(narrowed => PURE_FIFTH - (narrowed * PYTHAGOREAN_COMMA) / 4), 0),
+  // From the tonic: five fifths narrowed, then pure back round to the fourth,
+  // whose fifth back to the tonic takes the sixth narrowing
+  vallotti: chainOfFifths(
+    [1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0].map(narrowed => PURE_FIFTH - (narrowed * PYTHAGOREAN_COMMA) / 6), 0)
+};
+
+// Offset from equal temperament of each note, indexed like NOTE_NAMES, for the
+// temperament built on the tonic
+export function temperamentOffsets(temperament: Temperament, tonic: string): number[] {
+  const scale = SCALES[temperament] ?? SCALES.equal;
+  const tonicIndex = Math.max(0, NOTE_NAMES.indexOf(tonic));
+
+  const offsets = NOTE_NAMES.map((_, index) => {
+    const degree = (index - tonicIndex + 12) % 12;
+    return scale[degree] - degree * 100;
+  });
+  const a = offsets[NOTE_NAMES.indexOf('A')];
+  return offsets.map(offset => offset - a);
+}
+
+// Degrees reached by stacking the fifths, starting the given number of fifths
+// below the tonic
+function chainOfFifths(fifths: number[], below: number): number[] {
+  const positions = [0];
+  for (const fifth of fifths) {
+    positions.push(positions[positions.length - 1] + fifth);
+  }
+
+  const scale = new Array<number>(12).fill(0);
+  positions.forEach((position, step) => {
+    const degree = ((((step - below) * 7) % 12) + 12) % 12;
+    scale[degree] = ((position - positions[below]) % 1200 + 1200) % 1200;
+  });
+  return scale;
+}
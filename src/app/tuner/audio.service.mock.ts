@@ -1,5 +1,9 @@
 import { Injectable, NgZone, OnDestroy } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { DEFAULT_INPUT_FILTERS, InputFilterOptions, PitchAlgorithm, SpectrumData, Temperament, semitoneOffset, temperamentOffsets } from './audio-recorder';
+import { STANDARD_TUNING, Tuning } from './tunings';
+import type { DrumHit, InharmonicityReading, OnsetEvent, PitchAverage, SmoothingMode, StringDeviation, StringHealthReading, TunerMode } from './audio.service';
+import type { CentsPrecision } from './readout';
 
 export interface PitchData {
   frequency: number;
@@ -7,12 +11,29 @@ export interface PitchData {
   octave: number;
   cents: number;
   amplitude: number;
+  confidence: number;
+  stringNumber?: number;
+  targetFrequency?: number;
 }
 
 export interface TunerSettings {
   referencePitch: number;
   noiseThreshold: number;
   bufferSize: number;
+  hopSize: number;
+  pitchAlgorithm: PitchAlgorithm;
+  smoothing: SmoothingMode;
+  centsPrecision: CentsPrecision;
+  averageWindow: number;
+  mode: TunerMode;
+  minFrequency: number;
+  maxFrequency: number;
+  inputFilters: InputFilterOptions;
+  stretchCurve: number[];
+  stringHealth: boolean;
+  tuning: Tuning;
+  temperament: Temperament;
+  temperamentTonic: string;
 }
 
 const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
@@ -20,13 +41,37 @@ const NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 @Injectable()
 export class MockAudioService implements OnDestroy {
   private _pitchData = new BehaviorSubject<PitchData | null>(null);
+  private _averagePitch = new BehaviorSubject<PitchAverage | null>(null);
+  private _spectrum = new BehaviorSubject<SpectrumData | null>(null);
+  private _stringDeviations = new BehaviorSubject<StringDeviation[] | null>(null);
+  private _onset = new Subject<OnsetEvent>();
+  private _drumHit = new Subject<DrumHit>();
+  private _inharmonicity = new Subject<InharmonicityReading>();
+  private _stringHealth = new Subject<StringHealthReading>();
   private _isListening = new BehaviorSubject<boolean>(false);
   private _hasPermission = new BehaviorSubject<boolean>(false);
+  private _humFrequency = new BehaviorSubject<number>(0);
+  private _gateThreshold = new BehaviorSubject<number>(0.01);
+  private _sampleRate = new BehaviorSubject<number>(44100);
 
   private _settings: TunerSettings = {
     referencePitch: 440,
     noiseThreshold: 0.01,
     bufferSize: 2048,
+    hopSize: 1024,
+    pitchAlgorithm: 'autocorrelation',
+    smoothing: 'median',
+    centsPrecision: 1,
+    averageWindow: 0,
+    mode: 'chromatic',
+    minFrequency: 60,
+    maxFrequency: 1500,
+    inputFilters: DEFAULT_INPUT_FILTERS,
+    stretchCurve: [],
+    stringHealth: true,
+    tuning: STANDARD_TUNING,
+    temperament: 'equal',
+    temperamentTonic: 'C',
   };
 
   private mockInterval: ReturnType<typeof setInterval> | null = null;
@@ -34,8 +79,23 @@ export class MockAudioService implements OnDestroy {
   private targetCents = 0;
 
   pitchData$: Observable<PitchData | null> = this._pitchData.asObservable();
+  // Mock readings are not filtered, so the raw stream carries the same values
+  rawPitchData$: Observable<PitchData | null> = this._pitchData.asObservable();
+  averagePitch$: Observable<PitchAverage | null> = this._averagePitch.asObservable();
+  spectrum$: Observable<SpectrumData | null> = this._spectrum.asObservable();
+  onset$: Observable<OnsetEvent> = this._onset.asObservable();
+  drumHit$: Observable<DrumHit> = this._drumHit.asObservable();
+  // The mock signal has no partials to measure, so this never emits
+  inharmonicity$: Observable<InharmonicityReading> = this._inharmonicity.asObservable();
+  // nor any ringing open string
+  stringHealth$: Observable<StringHealthReading> = this._stringHealth.asObservable();
+  stringDeviations$: Observable<StringDeviation[] | null> = this._stringDeviations.asObservable();
   isListening$: Observable<boolean> = this._isListening.asObservable();
   hasPermission$: Observable<boolean> = this._hasPermission.asObservable();
+  // The mock signal is clean, so no hum is ever reported
+  humFrequency$: Observable<number> = this._humFrequency.asObservable();
+  gateThreshold$: Observable<number> = this._gateThreshold.asObservable();
+  sampleRate$: Observable<number> = this._sampleRate.asObservable();
 
   constructor(private ngZone: NgZone) {
     console.log('[MOCK AudioService] Initialized - using simulated pitch data');
@@ -45,6 +105,10 @@ export class MockAudioService implements OnDestroy {
     this.stopMockData();
   }
 
+  get gateThreshold(): number {
+    return this._gateThreshold.value;
+  }
+
   get settings(): TunerSettings {
     return { ...this._settings };
   }
@@ -94,6 +158,12 @@ export class MockAudioService implements OnDestroy {
         // Occasionally change target
         if (Math.random() < 0.02) {
           this.targetCents = (Math.random() - 0.5) * 40;
+          this._onset.next({ timestamp: Date.now(), strength: 0.5 + Math.random() });
+          if (this._settings.mode === 'drum') {
+            // A tom around 110 Hz with a few Hz of uneven tension
+            const fundamental = 110 + (Math.random() - 0.5) * 6;
+            this._drumHit.next({ fundamental, overtone: fundamental * 1.59, timestamp: Date.now() });
+          }
         }
 
         // Calculate frequency with cents offset
@@ -104,9 +174,15 @@ export class MockAudioService implements OnDestroy {
           frequency,
           note: baseNote,
           octave: baseOctave,
-          cents: Math.round(this.currentCents),
+          cents: this.currentCents,
           amplitude: 0.3 + Math.random() * 0.4, // Random amplitude 0.3-0.7
+          confidence: 0.8 + Math.random() * 0.2,
         };
+        if (this._settings.mode === 'string') {
+          // E2 is reported as the lowest string whatever the tuning
+          pitchData.stringNumber = this._settings.tuning.strings.length;
+          pitchData.targetFrequency = baseFrequency;
+        }
 
         this._pitchData.next(pitchData);
       });
@@ -131,6 +207,7 @@ export class MockAudioService implements OnDestroy {
     // A4 = referencePitch (usually 440)
     // Calculate semitones from A4
     const semitonesFromA4 = noteIndex - 9 + (octave - 4) * 12;
-    return referencePitch * Math.pow(2, semitonesFromA4 / 12);
+    const offsets = temperamentOffsets(this._settings.temperament, this._settings.temperamentTonic);
+    return referencePitch * Math.pow(2, (semitonesFromA4 + semitoneOffset(semitonesFromA4, offsets) / 100) / 12);
   }
 }
@@ -1,52 +1,201 @@
 import { Injectable, NgZone, OnDestroy } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
-import { AudioRecorder, PitchData } from './audio-recorder';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { AudioRecorder, DEFAULT_INPUT_FILTERS, InputFilterOptions, OnsetDetector, PitchAlgorithm, PitchData, PitchWorkerClient, SpectrumData, Temperament, rms, temperamentOffsets } from './audio-recorder';
+import { STANDARD_TUNING, Tuning, TuningString, nearestString, stringFrequency } from './tunings';
+import { NoteLock } from './note-lock';
+import { PitchSmoother, SmoothingMode } from './pitch-smoothing';
+import { GateState, NoiseGate } from './noise-gate';
+import { PitchAverage, PitchAverager } from './pitch-averager';
+import { AUTO_BUFFER_SIZE, AdaptiveWindow, WINDOW_SIZES } from './adaptive-window';
+import { CentsPrecision, LOW_CONFIDENCE } from './readout';
+import { pianoKey, stretchCents } from './stretch-curve';
+import { SustainTracker } from './string-health';
 
-export { PitchData } from './audio-recorder';
+export { PitchData, PitchAlgorithm, SpectrumData, InputFilterOptions, HumNotchMode, Temperament, DRUM_MIN_FREQUENCY, DRUM_MAX_FREQUENCY } from './audio-recorder';
+
+export { SmoothingMode } from './pitch-smoothing';
+export { AUTO_NOISE_THRESHOLD } from './noise-gate';
+export { PitchAverage } from './pitch-averager';
+export { AUTO_BUFFER_SIZE } from './adaptive-window';
+
+export type TunerMode = 'chromatic' | 'string' | 'polyphonic' | 'drum' | 'piano';
 
 export interface TunerSettings {
   referencePitch: number;
-  noiseThreshold: number;
-  bufferSize: number;
+  noiseThreshold: number;  // Gate open level (RMS); AUTO_NOISE_THRESHOLD calibrates from the room
+  bufferSize: number;      // Analysis window in samples, AUTO_BUFFER_SIZE to follow the note
+  hopSize: number;         // Samples between analyses; smaller updates more often
+  pitchAlgorithm: PitchAlgorithm;
+  smoothing: SmoothingMode;
+  centsPrecision: CentsPrecision; // Readout step; finer steps smooth harder
+  averageWindow: number;   // Seconds of confident frames to average, 0 = off
+  mode: TunerMode;
+  minFrequency: number;
+  maxFrequency: number;
+  inputFilters: InputFilterOptions;
+  stretchCurve: number[];  // Piano mode targets per key in cents from 12-TET, empty = none
+  stringHealth: boolean;   // Measure open strings as they ring in chromatic and string modes
+  tuning: Tuning;          // Strings matched in string, polyphonic and string health tracking
+  temperament: Temperament; // Targets and cents in every mode follow this instead of 12-TET
+  temperamentTonic: string; // Note the temperament is built on, e.g. 'C'
+}
+
+export interface StringDeviation {
+  stringIndex: number;     // 0 = lowest string
+  note: string;
+  octave: number;
+  targetFrequency: number;
+  frequency: number;       // 0 when the string was not heard
+  cents: number;
+  strength: number;        // Relative to the loudest string (0-1)
+  detected: boolean;
+}
+
+export interface DrumHit {
+  fundamental: number;     // Hz
+  overtone: number;        // First overtone in Hz, 0 when none stood out
+  timestamp: number;       // Date.now() when the hit was analysed
+}
+
+export interface InharmonicityReading {
+  key: number;             // Piano key, 1 = A0
+  note: string;
+  octave: number;
+  coefficient: number;     // Inharmonicity coefficient B
+}
+
+export interface StringHealthReading {
+  stringIndex: number;     // 0 = lowest string
+  note: string;
+  octave: number;
+  coefficient: number;     // Inharmonicity coefficient B
+  decayRate: number;       // dB/s over the measured stretch of the ring
 }
 
+export interface OnsetEvent {
+  timestamp: number; // Date.now() when the attack was detected
+  strength: number;  // Relative spectral flux, roughly 0.3 (soft) to 1+ (hard pick)
+}
+
+// Requested from the platform; the recorder reports the rate actually used
+const PREFERRED_SAMPLE_RATE = 44100;
+// Pitch right after a pick attack reads noisy and sharp, so estimates are held back this long
+const TRANSIENT_SECONDS = 0.06;
+
+// Strings a few Hz apart need a long window to separate; ~186ms at 44.1kHz
+const POLYPHONIC_WINDOW_SIZE = 8192;
+// The string scan costs several ms per strum and runs on the UI thread, so
+// strums are re-analysed about four times a second
+const POLYPHONIC_INTERVAL_SECONDS = 0.25;
+// A drum hit is analysed once this much of its decay has been recorded; ~186ms at 44.1kHz
+const DRUM_WINDOW_SIZE = 8192;
+// Partials need a long window to resolve
+const PARTIAL_WINDOW_SIZE = 8192;
+// Piano inharmonicity is measured every ~0.25s while a note sounds
+const PIANO_MEASURE_SAMPLES = 11025;
+// Open strings are measured once the window holds only the ringing string
+const HEALTH_PARTIALS_SECONDS = 0.3;
+// A note this close to an open string's target counts as that string
+const OPEN_STRING_CENTS = 30;
+
 @Injectable({
   providedIn: 'root'
 })
 export class AudioService implements OnDestroy {
   private _pitchData = new BehaviorSubject<PitchData | null>(null);
+  private _rawPitchData = new BehaviorSubject<PitchData | null>(null);
+  private _averagePitch = new BehaviorSubject<PitchAverage | null>(null);
+  private _spectrum = new BehaviorSubject<SpectrumData | null>(null);
+  private _stringDeviations = new BehaviorSubject<StringDeviation[] | null>(null);
+  private _onset = new Subject<OnsetEvent>();
+  private _drumHit = new Subject<DrumHit>();
+  private _inharmonicity = new Subject<InharmonicityReading>();
+  private _stringHealth = new Subject<StringHealthReading>();
   private _isListening = new BehaviorSubject<boolean>(false);
   private _hasPermission = new BehaviorSubject<boolean>(false);
+  private _humFrequency = new BehaviorSubject<number>(0);
+  private _gateThreshold = new BehaviorSubject<number>(0.01);
+  private _sampleRate = new BehaviorSubject<number>(PREFERRED_SAMPLE_RATE);
   
   private _settings: TunerSettings = {
     referencePitch: 440,
     noiseThreshold: 0.01,
-    bufferSize: 2048
+    bufferSize: 2048,
+    hopSize: 1024,
+    pitchAlgorithm: 'autocorrelation',
+    smoothing: 'median',
+    centsPrecision: 1,
+    averageWindow: 0,
+    mode: 'chromatic',
+    minFrequency: 60,
+    maxFrequency: 1500,
+    inputFilters: DEFAULT_INPUT_FILTERS,
+    stretchCurve: [],
+    stringHealth: true,
+    tuning: STANDARD_TUNING,
+    temperament: 'equal',
+    temperamentTonic: 'C'
   };
 
   private recorder: AudioRecorder;
-  private currentBufferSize: number = 2048;
+  private polyphonicWindow = new Float32Array(POLYPHONIC_WINDOW_SIZE);
+  private samplesSinceStrum = 0;
+  private drumWindow = new Float32Array(DRUM_WINDOW_SIZE);
+  private samplesSinceHit: number | null = null;
+  private partialWindow = new Float32Array(PARTIAL_WINDOW_SIZE);
+  private samplesSinceMeasure = 0;
+  private sustain = new SustainTracker();
+  private healthString: number | null = null;
+  private healthCoefficient: number | null = null;
+  private pitchWorker: PitchWorkerClient | null = null;
+  private noteLock = new NoteLock();
+  // Per-note offsets from 12-TET of the chosen temperament, indexed like NOTE_NAMES
+  private temperament = temperamentOffsets(this._settings.temperament, this._settings.temperamentTonic);
+  private smoother = new PitchSmoother(this._settings.smoothing, this._settings.centsPrecision);
+  private noiseGate = new NoiseGate(this._settings.noiseThreshold);
+  private averager = new PitchAverager(this._settings.averageWindow);
+  private adaptiveWindow = new AdaptiveWindow(PREFERRED_SAMPLE_RATE, this._settings.minFrequency);
+  private onsetDetector = new OnsetDetector();
+  private transientSeconds = 0;
 
   pitchData$: Observable<PitchData | null> = this._pitchData.asObservable();
+  // Detector output before note lock and smoothing, for diagnostics
+  rawPitchData$: Observable<PitchData | null> = this._rawPitchData.asObservable();
+  // Mean and spread over the precision-tune window, null when off or unsettled
+  averagePitch$: Observable<PitchAverage | null> = this._averagePitch.asObservable();
+  spectrum$: Observable<SpectrumData | null> = this._spectrum.asObservable();
+  stringDeviations$: Observable<StringDeviation[] | null> = this._stringDeviations.asObservable();
+  // Fires once per new note attack, in every mode
+  onset$: Observable<OnsetEvent> = this._onset.asObservable();
+  // One reading per drum hit in drum mode
+  drumHit$: Observable<DrumHit> = this._drumHit.asObservable();
+  // Inharmonicity of sustained notes in piano mode
+  inharmonicity$: Observable<InharmonicityReading> = this._inharmonicity.asObservable();
+  // One reading each time an open string rings long enough to measure
+  stringHealth$: Observable<StringHealthReading> = this._stringHealth.asObservable();
   isListening$: Observable<boolean> = this._isListening.asObservable();
   hasPermission$: Observable<boolean> = this._hasPermission.asObservable();
+  // Mains frequency (50 or 60) while strong hum is heard, otherwise 0
+  humFrequency$: Observable<number> = this._humFrequency.asObservable();
+  // Level the gate currently opens at, follows the room in auto mode
+  gateThreshold$: Observable<number> = this._gateThreshold.asObservable();
+  // Microphone rate negotiated with the hardware, known once recording starts
+  sampleRate$: Observable<number> = this._sampleRate.asObservable();
 
   constructor(private ngZone: NgZone) {
-    this.recorder = new AudioRecorder({
-      sampleRate: 44100,
-      bufferSize: this._settings.bufferSize
-    });
+    this.recorder = this.createRecorder();
 
-    // Set up the audio data callback
-    this.recorder.setAudioDataCallback((audioData: number[]) => {
-      this.ngZone.run(() => {
-        this.processAudioData(audioData);
-      });
-    });
+    this.startPitchWorker();
   }
 
   ngOnDestroy(): void {
     this.recorder.dispose();
+    this.pitchWorker?.terminate();
+  }
+
+  // Current gate open level (RMS)
+  get gateThreshold(): number {
+    return this._gateThreshold.value;
   }
 
   get settings(): TunerSettings {
@@ -55,44 +204,155 @@ export class AudioService implements OnDestroy {
 
   updateSettings(settings: Partial<TunerSettings>): void {
     const oldBufferSize = this._settings.bufferSize;
+    const oldHopSize = this._settings.hopSize;
+    const oldPitchAlgorithm = this._settings.pitchAlgorithm;
+    const oldSmoothing = this._settings.smoothing;
+    const oldCentsPrecision = this._settings.centsPrecision;
+    const oldAverageWindow = this._settings.averageWindow;
+    const oldMode = this._settings.mode;
+    const oldMinFrequency = this._settings.minFrequency;
+    const oldMaxFrequency = this._settings.maxFrequency;
+    const oldInputFilters = this._settings.inputFilters;
     this._settings = { ...this._settings, ...settings };
+    this.temperament = temperamentOffsets(this._settings.temperament, this._settings.temperamentTonic);
     
-    // If buffer size changed, recreate the recorder
-    if (settings.bufferSize && settings.bufferSize !== oldBufferSize) {
-      this.updateBufferSize(settings.bufferSize);
+    // Window and hop switch while recording, no need to restart the recorder
+    if (settings.hopSize && settings.hopSize !== oldHopSize) {
+      this.recorder.setHopSize(settings.hopSize);
     }
-  }
 
-  private updateBufferSize(newBufferSize: number): void {
-    const wasListening = this._isListening.value;
-    
-    // Stop current recording
-    if (wasListening) {
-      this.recorder.stop();
+    if (settings.bufferSize !== undefined && settings.bufferSize !== oldBufferSize) {
+      this.recorder.setAnalysisWindow(this.isAdaptiveWindow ? this.adaptiveWindow.reset() : settings.bufferSize);
     }
-    
-    // Dispose old recorder and create new one with updated buffer size
-    this.recorder.dispose();
-    this.currentBufferSize = newBufferSize;
-    
-    this.recorder = new AudioRecorder({
-      sampleRate: 44100,
-      bufferSize: newBufferSize
+
+    // Swap the detector in place, no need to restart the recorder
+    if (settings.pitchAlgorithm && settings.pitchAlgorithm !== oldPitchAlgorithm) {
+      this.recorder.setPitchAlgorithm(settings.pitchAlgorithm);
+    }
+
+    if (this._settings.minFrequency !== oldMinFrequency || this._settings.maxFrequency !== oldMaxFrequency) {
+      this.recorder.setFrequencyRange(this._settings.minFrequency, this._settings.maxFrequency);
+      this.updateAdaptiveRange();
+    }
+
+    if (this._settings.pitchAlgorithm !== oldPitchAlgorithm ||
+        this._settings.minFrequency !== oldMinFrequency || this._settings.maxFrequency !== oldMaxFrequency) {
+      this.configurePitchWorker();
+    }
+
+    if (settings.inputFilters && !sameInputFilters(settings.inputFilters, oldInputFilters)) {
+      this.recorder.setInputFilters(settings.inputFilters);
+    }
+
+    if (settings.noiseThreshold !== undefined) {
+      this.noiseGate.setThreshold(settings.noiseThreshold);
+      this.publishGateThreshold();
+    }
+
+    if (settings.smoothing && settings.smoothing !== oldSmoothing) {
+      this.smoother.setMode(settings.smoothing);
+    }
+
+    if (settings.centsPrecision && settings.centsPrecision !== oldCentsPrecision) {
+      this.smoother.setPrecision(settings.centsPrecision);
+    }
+
+    if (settings.averageWindow !== undefined && settings.averageWindow !== oldAverageWindow) {
+      this.averager.setWindow(settings.averageWindow);
+      this._averagePitch.next(null);
+    }
+
+    if (settings.mode && settings.mode !== oldMode) {
+      this.samplesSinceStrum = 0;
+      this.samplesSinceHit = null;
+      this.sustain.cancel();
+      this.noteLock.reset();
+      this.smoother.reset();
+      this.averager.reset();
+      this._averagePitch.next(null);
+      this._rawPitchData.next(null);
+      this._pitchData.next(null);
+      this._stringDeviations.next(null);
+    }
+  }
+
+  // Move detection off the UI thread when the platform supports workers
+  private startPitchWorker(): void {
+    this.pitchWorker = PitchWorkerClient.create();
+    if (!this.pitchWorker) return;
+
+    this.pitchWorker.onResult((pitchData) => {
+      this.ngZone.run(() => {
+        // Results still in flight after stopping or switching modes are stale
+        if (this._isListening.value && this.isSingleNoteMode) {
+          this.publishPitch(pitchData);
+        }
+      });
     });
-    
-    // Set up the audio data callback again
-    this.recorder.setAudioDataCallback((audioData: number[]) => {
+    this.pitchWorker.onError((error) => {
+      console.error('Pitch worker failed, detecting on the main thread:', error);
+      this.pitchWorker?.terminate();
+      this.pitchWorker = null;
+    });
+    this.configurePitchWorker();
+  }
+
+  private configurePitchWorker(): void {
+    this.pitchWorker?.configure({
+      sampleRate: this.recorder.sampleRate,
+      pitchAlgorithm: this._settings.pitchAlgorithm,
+      minFrequency: this._settings.minFrequency,
+      maxFrequency: this._settings.maxFrequency
+    });
+  }
+
+  private createRecorder(): AudioRecorder {
+    const recorder = new AudioRecorder({
+      sampleRate: PREFERRED_SAMPLE_RATE,
+      bufferSize: this.isAdaptiveWindow ? this.adaptiveWindow.size : this._settings.bufferSize,
+      maxBufferSize: WINDOW_SIZES[WINDOW_SIZES.length - 1],
+      hopSize: this._settings.hopSize,
+      historySize: Math.max(POLYPHONIC_WINDOW_SIZE, DRUM_WINDOW_SIZE, PARTIAL_WINDOW_SIZE),
+      pitchAlgorithm: this._settings.pitchAlgorithm,
+      minFrequency: this._settings.minFrequency,
+      maxFrequency: this._settings.maxFrequency,
+      inputFilters: this._settings.inputFilters
+    });
+
+    // Set up the audio data callback
+    recorder.setAudioDataCallback((audioData: Float32Array) => {
       this.ngZone.run(() => {
         this.processAudioData(audioData);
       });
     });
-    
-    // Restart if was listening
-    if (wasListening) {
-      this.recorder.start();
+
+    return recorder;
+  }
+
+  // Modes that follow one note at a time through the pitch detector
+  private get isSingleNoteMode(): boolean {
+    const mode = this._settings.mode;
+    return mode === 'chromatic' || mode === 'string' || mode === 'piano';
+  }
+
+  private get isAdaptiveWindow(): boolean {
+    return this._settings.bufferSize === AUTO_BUFFER_SIZE;
+  }
+
+  // The widest window depends on the lowest note and the recording rate
+  private updateAdaptiveRange(): void {
+    const size = this.adaptiveWindow.setRange(this.recorder.sampleRate, this._settings.minFrequency);
+    if (this.isAdaptiveWindow) {
+      this.recorder.setAnalysisWindow(size);
     }
   }
 
+  // Fit the window to the note; a new note or silence starts from the widest
+  private adaptWindow(frequency: number | null): void {
+    if (!this.isAdaptiveWindow) return;
+    this.recorder.setAnalysisWindow(frequency === null ? this.adaptiveWindow.reset() : this.adaptiveWindow.update(frequency));
+  }
+
   async requestPermission(): Promise<boolean> {
     const granted = await this.recorder.requestPermission();
     this._hasPermission.next(granted);
@@ -108,7 +368,10 @@ export class AudioService implements OnDestroy {
       return;
     }
 
+    // Measure the room afresh each time listening starts
+    this.noiseGate.reset();
     this.recorder.start();
+    this.updateSampleRate();
     this._isListening.next(true);
   }
 
@@ -117,27 +380,287 @@ export class AudioService implements OnDestroy {
 
     this.recorder.stop();
     this._isListening.next(false);
+    this.noteLock.reset();
+    this.smoother.reset();
+    this.averager.reset();
+    this.onsetDetector.reset();
+    this.transientSeconds = 0;
+    this._averagePitch.next(null);
+    this._rawPitchData.next(null);
     this._pitchData.next(null);
+    this._spectrum.next(null);
+    this._stringDeviations.next(null);
+    this._humFrequency.next(0);
+    this.samplesSinceStrum = 0;
+    this.samplesSinceHit = null;
+    this.sustain.cancel();
   }
 
-  private processAudioData(audioData: number[]): void {
-    const result = this.recorder.detectPitch(audioData, this._settings.noiseThreshold);
-    
-    if (result) {
-      const noteData = this.recorder.frequencyToNote(result.frequency, this._settings.referencePitch);
-      const pitchData: PitchData = {
-        ...noteData,
-        amplitude: result.amplitude
-      };
-      this._pitchData.next(pitchData);
-    } else {
+  private processAudioData(audioData: Float32Array): void {
+    const spectrum = this.recorder.computeSpectrum(audioData);
+    this._spectrum.next(spectrum);
+
+    const level = rms(audioData);
+    const gate = this.noiseGate.process(level, this.frameSeconds());
+    this.publishGateThreshold();
+    this.detectOnset(spectrum, audioData);
+
+    const humFrequency = this.recorder.humFrequency;
+    if (humFrequency !== this._humFrequency.value) {
+      this._humFrequency.next(humFrequency);
+    }
+
+    if (this._settings.mode === 'polyphonic') {
+      this.processStrum(audioData);
+      return;
+    }
+
+    if (this._settings.mode === 'drum') {
+      this.processDrumHit();
+      return;
+    }
+
+    if ((this._settings.mode === 'chromatic' || this._settings.mode === 'string') && this._settings.stringHealth) {
+      this.trackSustain(level, gate);
+    }
+
+    this.processGatedPitch(audioData, gate);
+  }
+
+  private processGatedPitch(audioData: Float32Array, gate: GateState): void {
+    if (gate === 'closed') {
+      this.publishPitch(null);
+      return;
+    }
+
+    // Releasing: keep the last reading on screen without analysing the tail
+    if (gate === 'release') return;
+
+    // Keep showing the previous reading until the attack has passed
+    if (this.transientSeconds > 0) {
+      this.transientSeconds -= this.frameSeconds();
+      return;
+    }
+
+    if (this.pitchWorker) {
+      // The result is published from the worker's reply. The gate has
+      // already judged the level, so the analyser is not given a threshold
+      this.pitchWorker.analyze(audioData, 0, this._settings.referencePitch, this.temperament);
+      return;
+    }
+
+    this.publishPitch(this.recorder.analyzePitch(audioData, 0, this._settings.referencePitch, this.temperament));
+  }
+
+  private detectOnset(spectrum: SpectrumData, audioData: Float32Array): void {
+    const strength = this.onsetDetector.process(spectrum, audioData, this.noiseGate.openThreshold, this.frameSeconds());
+    if (strength === 0) return;
+
+    // A new attack may be a new note: start the lock and filters afresh
+    this.transientSeconds = TRANSIENT_SECONDS;
+    this.noteLock.reset();
+    this.smoother.reset();
+    this.adaptWindow(null);
+    this.samplesSinceHit = 0;
+    this.sustain.start();
+    this.healthString = null;
+    this.healthCoefficient = null;
+    this._onset.next({ timestamp: Date.now(), strength });
+  }
+
+  // Publish the gate level when it moves by more than 1 dB, not every frame
+  private publishGateThreshold(): void {
+    const threshold = this.noiseGate.openThreshold;
+    if (Math.abs(20 * Math.log10(threshold / this._gateThreshold.value)) > 1) {
+      this._gateThreshold.next(threshold);
+    }
+  }
+
+  // Time between analysed windows
+  private frameSeconds(): number {
+    return this.recorder.hopSize / this.recorder.sampleRate;
+  }
+
+  // The platform may record at a different rate than requested; the worker
+  // must convert periods with the same one
+  private updateSampleRate(): void {
+    const sampleRate = this.recorder.sampleRate;
+    if (sampleRate === this._sampleRate.value) return;
+
+    this._sampleRate.next(sampleRate);
+    this.configurePitchWorker();
+    this.updateAdaptiveRange();
+  }
+
+  // Hold the displayed note across the semitone boundary, then smooth within
+  // the note; silence releases both
+  private publishPitch(pitchData: PitchData | null): void {
+    this._rawPitchData.next(pitchData);
+    this.adaptWindow(pitchData?.frequency ?? null);
+
+    if (!pitchData) {
+      this.noteLock.reset();
+      this.smoother.reset();
+      this.averager.reset();
       this._pitchData.next(null);
+      if (this._averagePitch.value) {
+        this._averagePitch.next(null);
+      }
+      return;
+    }
+
+    const locked = this.matchString(this.offsetString(this.stretch(this.noteLock.apply(pitchData, this._settings.referencePitch, this.temperament))));
+    this._pitchData.next(this.smoother.apply(locked));
+
+    if (this._settings.mode === 'piano') {
+      this.measureInharmonicity(locked);
+    } else if (this._settings.stringHealth) {
+      this.trackOpenString(pitchData);
+    }
+
+    // Average the unsmoothed readings, so the spread shows the real frame-to-frame scatter
+    if (this._settings.averageWindow > 0) {
+      this._averagePitch.next(this.averager.push(locked, Date.now()));
     }
   }
 
+  // Piano mode reports cents against the stretch curve instead of 12-TET
+  private stretch(pitch: PitchData): PitchData {
+    if (this._settings.mode !== 'piano') return pitch;
+    return { ...pitch, cents: pitch.cents - stretchCents(this._settings.stretchCurve, pitch.note, pitch.octave) };
+  }
+
+  // Chromatic mode reports a note the tuning detunes on purpose against its adjusted target
+  private offsetString(pitch: PitchData): PitchData {
+    if (this._settings.mode !== 'chromatic') return pitch;
+    const string = this._settings.tuning.strings.find(({ note, octave }) => note === pitch.note && octave === pitch.octave);
+    return string?.cents ? { ...pitch, cents: pitch.cents - string.cents } : pitch;
+  }
+
+  // String mode reports cents against the nearest string of the tuning
+  private matchString(pitch: PitchData): PitchData {
+    if (this._settings.mode !== 'string') return pitch;
+    const strings = this._settings.tuning.strings;
+    const match = nearestString(this._settings.tuning, pitch.frequency, this._settings.referencePitch, this.temperament);
+    if (!match) return pitch;
+
+    const { note, octave } = strings[match.index];
+    return {
+      ...pitch,
+      note,
+      octave,
+      cents: match.cents,
+      stringNumber: strings.length - match.index,
+      targetFrequency: match.frequency
+    };
+  }
+
+  private measureInharmonicity(pitch: PitchData): void {
+    this.samplesSinceMeasure += this.recorder.hopSize;
+    if (this.samplesSinceMeasure < PIANO_MEASURE_SAMPLES || pitch.confidence < LOW_CONFIDENCE) return;
+    if (!this.recorder.readRecentSamples(this.partialWindow)) return;
+    this.samplesSinceMeasure = 0;
+
+    const estimate = this.recorder.measureInharmonicity(this.partialWindow, pitch.frequency);
+    if (estimate) {
+      this._inharmonicity.next({
+        key: pianoKey(pitch.note, pitch.octave),
+        note: pitch.note,
+        octave: pitch.octave,
+        coefficient: estimate.coefficient
+      });
+    }
+  }
+
+  // Follow the open string being measured; any other note ends the measurement
+  private trackOpenString(pitch: PitchData): void {
+    if (!this.sustain.isTracking || pitch.confidence < LOW_CONFIDENCE) return;
+
+    const index = this._settings.tuning.strings.findIndex(string =>
+      Math.abs(1200 * Math.log2(pitch.frequency / this.getStringFrequency(string))) <= OPEN_STRING_CENTS);
+    if (index < 0 || (this.healthString !== null && index !== this.healthString)) {
+      this.sustain.cancel();
+      return;
+    }
+    this.healthString = index;
+
+    if (this.healthCoefficient === null && this.sustain.seconds >= HEALTH_PARTIALS_SECONDS &&
+        this.recorder.readRecentSamples(this.partialWindow)) {
+      this.healthCoefficient = this.recorder.measureInharmonicity(this.partialWindow, pitch.frequency)?.coefficient ?? null;
+    }
+  }
+
+  // Publish a string reading once the ring has been followed long enough
+  private trackSustain(level: number, gate: GateState): void {
+    if (!this.sustain.isTracking) return;
+    if (gate === 'closed') {
+      this.sustain.cancel();
+      return;
+    }
+
+    const decayRate = this.sustain.addLevel(level, this.frameSeconds());
+    if (decayRate === null || this.healthString === null || this.healthCoefficient === null) return;
+
+    const { note, octave } = this._settings.tuning.strings[this.healthString];
+    this._stringHealth.next({ stringIndex: this.healthString, note, octave, coefficient: this.healthCoefficient, decayRate });
+  }
+
+  private processStrum(audioData: Float32Array): void {
+    // The analysis window is too short to separate the strings, so read a
+    // longer stretch of the recording, and only every few hops
+    this.samplesSinceStrum += this.recorder.hopSize;
+    if (this.samplesSinceStrum < POLYPHONIC_INTERVAL_SECONDS * this.recorder.sampleRate) return;
+    if (!this.recorder.readRecentSamples(this.polyphonicWindow)) return;
+    this.samplesSinceStrum = 0;
+
+    const targets = this._settings.tuning.strings.map(string => this.getStringFrequency(string));
+    const estimates = this.recorder.detectStrings(this.polyphonicWindow, targets, this.noiseGate.closeThreshold);
+
+    if (!estimates) {
+      this._stringDeviations.next(null);
+      return;
+    }
+
+    this._stringDeviations.next(estimates.map((estimate, index) => ({
+      stringIndex: index,
+      note: this._settings.tuning.strings[index].note,
+      octave: this._settings.tuning.strings[index].octave,
+      targetFrequency: targets[index],
+      frequency: estimate.frequency,
+      cents: estimate.cents,
+      strength: estimate.strength,
+      detected: estimate.detected
+    })));
+  }
+
+  private processDrumHit(): void {
+    // Wait until the window holds the hit from its attack onwards
+    if (this.samplesSinceHit === null) return;
+    this.samplesSinceHit += this.recorder.hopSize;
+    if (this.samplesSinceHit < DRUM_WINDOW_SIZE) return;
+    this.samplesSinceHit = null;
+    if (!this.recorder.readRecentSamples(this.drumWindow)) return;
+
+    const peaks = this.recorder.detectDrum(this.drumWindow, this.noiseGate.closeThreshold);
+    if (peaks) {
+      this._drumHit.next({ ...peaks, timestamp: Date.now() });
+    }
+  }
+
+  // Smallest buffer that can still resolve the given lowest frequency
+  getMinimumBufferSize(minFrequency: number): number {
+    return this.recorder.getMinimumBufferSize(minFrequency);
+  }
+
   getNoteFrequency(note: string, octave: number): number {
-    return this.recorder.noteToFrequency(note, octave, this._settings.referencePitch);
+    return this.recorder.noteToFrequency(note, octave, this._settings.referencePitch, this.temperament);
   }
-}
 
+  private getStringFrequency(string: TuningString): number {
+    return stringFrequency(string, this._settings.referencePitch, this.temperament);
+  }
+}
 
+function sameInputFilters(a: InputFilterOptions, b: InputFilterOptions): boolean {
+  return a.dcBlock === b.dcBlock && a.bandPass === b.bandPass && a.humNotch === b.humNotch;
+}
@@ -0,0 +1,56 @@
+import { PitchData } from './audio-recorder';
+import { LOW_CONFIDENCE } from './readout';
+
+/**
+ * Display hold
+ * When the note dies away, keeps the last confident reading on screen for a
+ * few seconds instead of letting the needle fall back to centre, so the
+ * result can still be read after looking away from the peg. A new reading
+ * or a new pluck ends the hold.
+ */
+export class DisplayHold {
+  private lastConfident: PitchData | null = null;
+  private heldUntil = 0;
+
+  constructor(private seconds: number = 0) {}
+
+  get isHolding(): boolean {
+    return this.heldUntil > 0;
+  }
+
+  setSeconds(seconds: number): void {
+    this.seconds = seconds;
+    if (seconds === 0) this.clear();
+  }
+
+  // Reading to display for the latest detector result
+  update(pitch: PitchData | null, now: number): PitchData | null {
+    if (pitch) {
+      this.heldUntil = 0;
+      if (pitch.confidence >= LOW_CONFIDENCE) {
+        this.lastConfident = pitch;
+      } else if (this.lastConfident && pitch.note !== this.lastConfident.note) {
+        // Do not fall back to a note that is no longer being played
+        this.lastConfident = null;
+      }
+      return pitch;
+    }
+
+    if (!this.isHolding && this.seconds > 0 && this.lastConfident) {
+      this.heldUntil = now + this.seconds * 1000;
+    }
+    return this.isHolding ? this.lastConfident : null;
+  }
+
+  // Returns true when the hold has just run out
+  expire(now: number): boolean {
+    if (!this.isHolding || now < this.heldUntil) return false;
+    this.clear();
+    return true;
+  }
+
+  clear(): void {
+    this.heldUntil = 0;
+    this.lastConfident = null;
+  }
+}
@@ -0,0 +1,90 @@
+import { DrumHit } from './audio.service';
+
+/**
+ * Lug-by-lug drum tuning
+ * Each hit is recorded against the lug being tuned, then the next lug around
+ * the head is selected. Every reading is compared with the average of all
+ * lugs read so far, so an evenly tensioned head shows all lugs near zero.
+ */
+
+export interface LugReading {
+  fundamental: number;
+  overtone: number;          // 0 when the hit showed no clear overtone
+  fundamentalCents: number;  // Deviation from the average of the lugs
+  overtoneCents: number | null;
+}
+
+export interface DrumLugState {
+  currentLug: number;
+  lugs: (LugReading | null)[];
+  spreadCents: number;       // Highest minus lowest fundamental, 0 with fewer than two lugs
+}
+
+export class DrumLugs {
+  private currentLug = 0;
+  private hits: (DrumHit | null)[];
+
+  constructor(lugCount: number) {
+    this.hits = new Array(lugCount).fill(null);
+  }
+
+  get lugCount(): number {
+    return this.hits.length;
+  }
+
+  setLugCount(lugCount: number): void {
+    if (lugCount === this.hits.length) return;
+    this.hits = new Array(lugCount).fill(null);
+    this.currentLug = 0;
+  }
+
+  // Store a hit for the current lug and move on to the next one
+  record(hit: DrumHit): void {
+    this.hits[this.currentLug] = hit;
+    this.currentLug = (this.currentLug + 1) % this.hits.length;
+  }
+
+  select(lug: number): void {
+    this.currentLug = (lug + this.hits.length) % this.hits.length;
+  }
+
+  next(): void {
+    this.select(this.currentLug + 1);
+  }
+
+  previous(): void {
+    this.select(this.currentLug - 1);
+  }
+
+  clear(): void {
+    this.hits.fill(null);
+    this.currentLug = 0;
+  }
+
+  get state(): DrumLugState {
+    const recorded = this.hits.filter((hit): hit is DrumHit => hit !== null);
+    const overtones = recorded.filter(hit => hit.overtone > 0);
+    const meanFundamental = geometricMean(recorded.map(hit => hit.fundamental));
+    const meanOvertone = geometricMean(overtones.map(hit => hit.overtone));
+
+    const lugs = this.hits.map(hit => hit && {
+      fundamental: hit.fundamental,
+      overtone: hit.overtone,
+      fundamentalCents: 1200 * Math.log2(hit.fundamental / meanFundamental),
+      overtoneCents: hit.overtone > 0 ? 1200 * Math.log2(hit.overtone / meanOvertone) : null
+    });
+
+    const cents = lugs.filter((lug): lug is LugReading => lug !== null).map(lug => lug.fundamentalCents);
+    return {
+      currentLug: this.currentLug,
+      lugs,
+      spreadCents: cents.length > 1 ? Math.max(...cents) - Math.min(...cents) : 0
+    };
+  }
+}
+
+// Average of frequencies on a log scale, 0 for none
+function geometricMean(frequencies: number[]): number {
+  if (frequencies.length === 0) return 0;
+  return Math.exp(frequencies.reduce((sum, f) => sum + Math.log(f), 0) / frequencies.length);
+}
@@ -0,0 +1,30 @@
+export type InstrumentType =
+  | 'guitar' | 'guitar7' | 'guitar8'
+  | 'bass' | 'bass5' | 'bass6'
+  | 'ukulele' | 'mandolin' | 'banjo'
+  | 'violin' | 'viola' | 'cello' | 'doubleBass'
+  | 'piano';
+
+export interface InstrumentInfo {
+  name: string;
+  description: string;
+  minFrequency: number; // Detection range, a little beyond the playable notes
+  maxFrequency: number;
+}
+
+export const INSTRUMENT_INFO: Record<InstrumentType, InstrumentInfo> = {
+  guitar: { name: 'Guitar', description: 'E2 to E6, drop tunings included', minFrequency: 60, maxFrequency: 1500 },
+  guitar7: { name: 'Guitar (7-string)', description: 'Low B1 or drop A1 to E6', minFrequency: 50, maxFrequency: 1500 },
+  guitar8: { name: 'Guitar (8-string)', description: 'Low F#1 or drop E1 to E6', minFrequency: 36, maxFrequency: 1500 },
+  bass: { name: 'Bass', description: '4-string, D1 to G4', minFrequency: 33, maxFrequency: 500 },
+  bass5: { name: 'Bass (5-string)', description: 'Low B0 to G4', minFrequency: 27, maxFrequency: 500 },
+  bass6: { name: 'Bass (6-string)', description: 'Low B0 to high C5', minFrequency: 27, maxFrequency: 600 },
+  ukulele: { name: 'Ukulele', description: 'Low or high G, up to A5', minFrequency: 130, maxFrequency: 1200 },
+  mandolin: { name: 'Mandolin', description: 'G3 to C7', minFrequency: 180, maxFrequency: 2200 },
+  banjo: { name: 'Banjo', description: '5-string, C3 to B5', minFrequency: 120, maxFrequency: 1200 },
+  violin: { name: 'Violin', description: 'G3 to E7', minFrequency: 180, maxFrequency: 3200 },
+  viola: { name: 'Viola', description: 'C3 to E6', minFrequency: 120, maxFrequency: 1800 },
+  cello: { name: 'Cello', description: 'C2 to A5', minFrequency: 60, maxFrequency: 1200 },
+  doubleBass: { name: 'Double Bass', description: 'E1 to G4', minFrequency: 36, maxFrequency: 500 },
+  piano: { name: 'Piano', description: 'A0 to C8, 88 keys', minFrequency: 26, maxFrequency: 4300 }
+};
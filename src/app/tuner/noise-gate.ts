@@ -0,0 +1,125 @@
+/**
+ * Noise gate
+ * Opens when the input RMS rises above the open threshold and closes only
+ * once it has stayed below a lower close threshold, so a note hovering near
+ * the threshold does not chatter. After the signal drops, the gate holds open
+ * so the decaying tail is still analysed, then releases: the last reading
+ * stays on screen without new analysis until the gate shuts.
+ *
+ * A threshold of AUTO_NOISE_THRESHOLD calibrates the gate from the room:
+ * the noise floor is measured while nothing is played and the open threshold
+ * sits a fixed margin above it.
+ */
+
+export const AUTO_NOISE_THRESHOLD = 0;
+
+export type GateState = 'closed' | 'open' | 'hold' | 'release';
+
+export interface NoiseGateOptions {
+  holdSeconds: number;     // Keep analysing this long after the level drops
+  releaseSeconds: number;  // Then keep the last reading this long before closing
+}
+
+export const DEFAULT_NOISE_GATE_OPTIONS: NoiseGateOptions = {
+  holdSeconds: 0.25,
+  releaseSeconds: 0.3
+};
+
+const CLOSE_RATIO = 0.5;            // Close threshold 6 dB below the open one
+const AUTO_MARGIN = 4;              // Auto open threshold 12 dB above the noise floor
+const MIN_THRESHOLD = 0.001;
+const MAX_THRESHOLD = 0.08;
+const CALIBRATION_SECONDS = 0.5;    // Gate stays shut while the first floor is measured
+const FLOOR_FALL_SECONDS = 0.2;     // The floor follows quieter rooms quickly
+const FLOOR_RISE_SECONDS = 3;       // and louder ones slowly, so notes do not lift it
+
+export class NoiseGate {
+  private state: GateState = 'closed';
+  private timer = 0;
+  private floor: number | null = null;
+  private calibrationSeconds = 0;
+
+  constructor(
+    private threshold: number = AUTO_NOISE_THRESHOLD,
+    private readonly options: NoiseGateOptions = DEFAULT_NOISE_GATE_OPTIONS
+  ) {}
+
+  get isAuto(): boolean {
+    return this.threshold === AUTO_NOISE_THRESHOLD;
+  }
+
+  // Measured room noise (RMS), null until calibrated or when not in auto mode
+  get noiseFloor(): number | null {
+    return this.isAuto ? this.floor : null;
+  }
+
+  get openThreshold(): number {
+    if (!this.isAuto) return this.threshold;
+    if (this.floor === null) return MAX_THRESHOLD;
+    return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, this.floor * AUTO_MARGIN));
+  }
+
+  get closeThreshold(): number {
+    return this.openThreshold * CLOSE_RATIO;
+  }
+
+  setThreshold(threshold: number): void {
+    if (threshold === this.threshold) return;
+    this.threshold = threshold;
+    this.reset();
+  }
+
+  process(level: number, frameSeconds: number): GateState {
+    if (this.isAuto) {
+      this.trackFloor(level, frameSeconds);
+      if (this.floor === null || this.calibrationSeconds < CALIBRATION_SECONDS) {
+        return this.state;
+      }
+    }
+
+    if (level >= this.openThreshold || (this.state !== 'closed' && level >= this.closeThreshold)) {
+      this.state = 'open';
+      this.timer = 0;
+      return this.state;
+    }
+
+    if (this.state === 'closed') return this.state;
+
+    this.timer += frameSeconds;
+    if (this.timer < this.options.holdSeconds) {
+      this.state = 'hold';
+    } else if (this.timer < this.options.holdSeconds + this.options.releaseSeconds) {
+      this.state = 'release';
+    } else {
+      this.state = 'closed';
+    }
+    return this.state;
+  }
+
+  // Start over, e.g. when listening restarts in a different room
+  reset(): void {
+    this.state = 'closed';
+    this.timer = 0;
+    this.floor = null;
+    this.calibrationSeconds = 0;
+  }
+
+  private trackFloor(level: number, frameSeconds: number): void {
+    if (this.floor === null) {
+      this.floor = level;
+      return;
+    }
+
+    // While calibrating take the quietest frame; afterwards only frames that
+    // are not being played count towards the floor
+    if (this.calibrationSeconds < CALIBRATION_SECONDS) {
+      this.calibrationSeconds += frameSeconds;
+      this.floor = Math.min(this.floor, level);
+      return;
+    }
+    if (this.state !== 'closed' || level >= this.openThreshold) return;
+
+    const seconds = level < this.floor ? FLOOR_FALL_SECONDS : FLOOR_RISE_SECONDS;
+    this.floor += (level - this.floor) * (1 - Math.exp(-frameSeconds / seconds));
+  }
+}
@@ -0,0 +1,43 @@
+import { PitchData, semitoneOffset, semitoneToNote } from './audio-recorder';
+
+/**
+ * Note-lock hysteresis
+ * Keeps the current note until the pitch is clearly past the semitone
+ * boundary, so a string sitting near ±50 cents does not flicker between
+ * neighbours. Cents are then reported against the locked note and may run a
+ * little past ±50. A collapse in confidence releases the lock. Under a
+ * temperament the boundaries and cents follow the tempered notes.
+ */
+
+const LOCK_MARGIN_CENTS = 15;     // How far past ±50 cents the pitch must go to switch
+const RELEASE_CONFIDENCE = 0.4;   // Below this the reading snaps to the nearest note
+
+export class NoteLock {
+  private lockedSemitone: number | null = null;
+
+  apply(pitch: PitchData, referencePitch: number, temperament?: number[]): PitchData {
+    const semitones = 12 * Math.log2(pitch.frequency / referencePitch);
+    // The note the analyzer named, which is the nearest tempered one
+    const nearest = Math.round(semitones - pitch.cents / 100);
+    const centsFrom = (semitone: number) => (semitones - semitone) * 100 - semitoneOffset(semitone, temperament);
+
+    if (this.lockedSemitone === null ||
+        pitch.confidence < RELEASE_CONFIDENCE ||
+        Math.abs(centsFrom(this.lockedSemitone)) > 50 + LOCK_MARGIN_CENTS) {
+      this.lockedSemitone = nearest;
+    }
+
+    if (this.lockedSemitone === nearest) return pitch;
+
+    return {
+      ...pitch,
+      ...semitoneToNote(this.lockedSemitone),
+      cents: centsFrom(this.lockedSemitone)
+    };
+  }
+
+  // Forget the locked note, e.g. after silence
+  reset(): void {
+    this.lockedSemitone = null;
+  }
+}
@@ -0,0 +1,74 @@
+import { PitchData } from './audio-recorder';
+import { LOW_CONFIDENCE } from './readout';
+
+/**
+ * Precision-tune averaging
+ * Mean and spread of the deviation over a sliding window of confident frames
+ * on one note, for the final touch-up once the string is close. Only the
+ * window is averaged, so turning the peg shows up within a window's length.
+ */
+
+export interface PitchAverage {
+  note: string;
+  octave: number;
+  meanCents: number;    // Average deviation over the window
+  spreadCents: number;  // Standard deviation of the frames, in cents
+  frames: number;       // Frames in the window
+}
+
+// Fewer frames than this give a mean too unsteady to show
+const MIN_FRAMES = 8;
+
+export class PitchAverager {
+  private times: number[] = [];
+  private cents: number[] = [];
+  private currentNote: string | null = null;
+
+  constructor(private windowSeconds: number) {}
+
+  setWindow(seconds: number): void {
+    this.windowSeconds = seconds;
+    this.reset();
+  }
+
+  // Add a reading taken at `now` (ms) and return the average, null while
+  // there are too few frames
+  push(pitch: PitchData, now: number): PitchAverage | null {
+    const note = `${pitch.note}${pitch.octave}`;
+    if (note !== this.currentNote) {
+      this.reset();
+      this.currentNote = note;
+    }
+
+    if (pitch.confidence >= LOW_CONFIDENCE) {
+      this.times.push(now);
+      this.cents.push(pitch.cents);
+    }
+
+    const oldest = now - this.windowSeconds * 1000;
+    while (this.times.length && this.times[0] < oldest) {
+      this.times.shift();
+      this.cents.shift();
+    }
+
+    const frames = this.cents.length;
+    if (frames < MIN_FRAMES) return null;
+
+    const meanCents = this.cents.reduce((sum, cents) => sum + cents, 0) / frames;
+    const variance = this.cents.reduce((sum, cents) => sum + (cents - meanCents) ** 2, 0) / (frames - 1);
+
+    return {
+      note: pitch.note,
+      octave: pitch.octave,
+      meanCents,
+      spreadCents: Math.sqrt(variance),
+      frames
+    };
+  }
+
+  reset(): void {
+    this.times = [];
+    this.cents = [];
+    this.currentNote = null;
+  }
+}
@@ -0,0 +1,164 @@
+import type { PitchData } from './audio-recorder';
+import type { CentsPrecision } from './readout';
+
+/**
+ * Pitch smoothing
+ * Filters the detected frequency in cents (log-frequency), so the same
+ * deviation is smoothed alike on every string. Filters restart whenever the
+ * note changes, so a new note never inherits the previous one's history.
+ * Finer readout precision averages harder: frame-to-frame detector jitter
+ * of a cent or so would otherwise flicker the last digit.
+ */
+
+export type SmoothingMode = 'off' | 'median' | 'exponential' | 'kalman';
+
+export const SMOOTHING_MODE_INFO: Record<SmoothingMode, { name: string; description: string }> = {
+  off: { name: 'Off', description: 'Raw detector output' },
+  median: { name: 'Median', description: 'Drops outlier frames, slight delay' },
+  exponential: { name: 'Exponential', description: 'Smooth glide, steady lag' },
+  kalman: { name: 'Kalman', description: 'Trusts confident readings more' }
+};
+
+interface FilterTuning {
+  medianSize: number;
+  exponentialAlpha: number;
+  kalmanProcessNoise: number; // cents² a real pitch can drift per frame
+}
+
+const FILTER_TUNING: Record<CentsPrecision, FilterTuning> = {
+  1: { medianSize: 5, exponentialAlpha: 0.35, kalmanProcessNoise: 4 },
+  0.5: { medianSize: 7, exponentialAlpha: 0.2, kalmanProcessNoise: 1 },
+  0.1: { medianSize: 9, exponentialAlpha: 0.1, kalmanProcessNoise: 0.25 }
+};
+
+const KALMAN_MEASUREMENT_NOISE = 25; // cents² of a fully confident reading
+
+interface CentsFilter {
+  // Returns the filtered value for the new reading
+  push(cents: number, confidence: number): number;
+  reset(): void;
+}
+
+class MedianFilter implements CentsFilter {
+  private history: number[] = [];
+
+  constructor(private readonly size: number) {}
+
+  push(cents: number): number {
+    this.history.push(cents);
+    if (this.history.length > this.size) {
+      this.history.shift();
+    }
+    const sorted = [...this.history].sort((a, b) => a - b);
+    const middle = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  reset(): void {
+    this.history = [];
+  }
+}
+
+class ExponentialFilter implements CentsFilter {
+  private value: number | null = null;
+
+  constructor(private readonly alpha: number) {}
+
+  push(cents: number): number {
+    this.value = this.value === null ? cents : this.value + this.alpha * (cents - this.value);
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+  }
+}
+
+// Constant-position Kalman filter; low-confidence readings count as noisier measurements
+class KalmanFilter implements CentsFilter {
+  private estimate: number | null = null;
+  private variance = 0;
+
+  constructor(private readonly processNoise: number) {}
+
+  push(cents: number, confidence: number): number {
+    if (this.estimate === null) {
+      this.estimate = cents;
+      this.variance = KALMAN_MEASUREMENT_NOISE;
+      return cents;
+    }
+
+    const measurementNoise = KALMAN_MEASUREMENT_NOISE / Math.max(0.1, confidence * confidence);
+    this.variance += this.processNoise;
+    const gain = this.variance / (this.variance + measurementNoise);
+    this.estimate += gain * (cents - this.estimate);
+    this.variance *= 1 - gain;
+    return this.estimate;
+  }
+
+  reset(): void {
+    this.estimate = null;
+    this.variance = 0;
+  }
+}
+
+function createFilter(mode: SmoothingMode, precision: CentsPrecision): CentsFilter | null {
+  const tuning = FILTER_TUNING[precision] ?? FILTER_TUNING[1];
+  switch (mode) {
+    case 'median':
+      return new MedianFilter(tuning.medianSize);
+    case 'exponential':
+      return new ExponentialFilter(tuning.exponentialAlpha);
+    case 'kalman':
+      return new KalmanFilter(tuning.kalmanProcessNoise);
+    case 'off':
+    default:
+      return null;
+  }
+}
+
+export class PitchSmoother {
+  private filter: CentsFilter | null;
+  private currentNote: string | null = null;
+
+  constructor(private mode: SmoothingMode = 'median', private precision: CentsPrecision = 1) {
+    this.filter = createFilter(mode, precision);
+  }
+
+  setMode(mode: SmoothingMode): void {
+    this.mode = mode;
+    this.filter = createFilter(mode, this.precision);
+    this.currentNote = null;
+  }
+
+  setPrecision(precision: CentsPrecision): void {
+    this.precision = precision;
+    this.filter = createFilter(this.mode, precision);
+    this.currentNote = null;
+  }
+
+  apply(pitch: PitchData): PitchData {
+    if (!this.filter) return pitch;
+
+    const note = `${pitch.note}${pitch.octave}`;
+    if (note !== this.currentNote) {
+      this.filter.reset();
+      this.currentNote = note;
+    }
+
+    // Filter the absolute pitch in cents, then move frequency and deviation by the same amount
+    const rawCents = 1200 * Math.log2(pitch.frequency);
+    const offset = this.filter.push(rawCents, pitch.confidence) - rawCents;
+
+    return {
+      ...pitch,
+      frequency: pitch.frequency * Math.pow(2, offset / 1200),
+      cents: pitch.cents + offset
+    };
+  }
+
+  reset(): void {
+    this.filter?.reset();
+    this.currentNote = null;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Readout settings
+ * Shared by the audio pipeline, which smooths and gates readings by them, and
+ * the renderers, which draw the readings.
+ */
+
+// Step numeric cents readouts are rounded to
+export type CentsPrecision = 1 | 0.5 | 0.1;
+
+export const CENTS_PRECISION_INFO: Record<CentsPrecision, { name: string; description: string }> = {
+  1: { name: '1 cent', description: 'Whole cents, everyday tuning' },
+  0.5: { name: '0.5 cent', description: 'Half cents, steadier filtering' },
+  0.1: { name: '0.1 cent', description: 'Intonation setup, slowest to settle' }
+};
+
+// Readings below this confidence are drawn dimmed and left out of measurements
+export const LOW_CONFIDENCE = 0.6;
@@ -1,4 +1,4 @@
-import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+import { TunerColors, TunerRenderer, TunerRendererContext, drawStringTarget, readoutOpacity } from './tuner-renderer.interface';
 
 /**
  * Chromatic renderer
@@ -40,7 +40,7 @@ export class BossChromaticRenderer implements TunerRenderer {
   }
 
   renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
-    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency } = context;
+    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency, isHolding } = context;
 
     // Warm dark background
     ctx.fillStyle = colors.background;
@@ -50,7 +50,9 @@ export class BossChromaticRenderer implements TunerRenderer {
     this.drawLEDMeterBar(ctx, w, h, displayedCents, isListening, colors);
     
     // Draw note display with 7-segment style
+    ctx.globalAlpha = readoutOpacity(pitch);
     this.drawNoteDisplay(ctx, w, h, pitch, displayedCents, isListening, colors);
+    ctx.globalAlpha = 1;
     
     // Draw flat/sharp indicators
     this.drawFlatSharpIndicators(ctx, w, h, displayedCents, isListening, colors);
@@ -59,6 +61,29 @@ export class BossChromaticRenderer implements TunerRenderer {
     if (showFrequency) {
       this.drawFrequencyDisplay(ctx, w, h, pitch, isListening, colors);
     }
+
+    drawStringTarget(ctx, w, pitch, colors);
+
+    if (isHolding) {
+      this.drawHoldIndicator(ctx, colors);
+    }
+  }
+
+  // Lit LED with a label, like the pedal's status lights
+  private drawHoldIndicator(ctx: CanvasRenderingContext2D, colors: TunerColors): void {
+    const ledX = 30;
+    const ledY = 37;
+
+    ctx.fillStyle = colors.sharp;
+    ctx.beginPath();
+    ctx.arc(ledX, ledY, 5, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.font = '14px system-ui';
+    ctx.fillStyle = colors.textSecondary;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('HOLD', ledX + 12, ledY);
   }
 
   private drawLEDMeterBar(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, colors: TunerColors): void {
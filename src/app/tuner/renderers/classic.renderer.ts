@@ -1,4 +1,5 @@
-import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+import { PitchAverage } from '../audio.service';
+import { CentsPrecision, TunerColors, TunerRenderer, TunerRendererContext, formatCents, drawStringTarget, readoutOpacity } from './tuner-renderer.interface';
 
 const DARK_COLORS: TunerColors = {
   background: '#000000',
@@ -34,7 +35,7 @@ export class ClassicRenderer implements TunerRenderer {
   }
 
   renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
-    const { ctx, width: w, height: h, pitch, displayedCents, isListening, showFrequency } = context;
+    const { ctx, width: w, height: h, pitch, displayedCents, isListening, showFrequency, centsPrecision, isHolding, average } = context;
 
     // Clear canvas
     ctx.fillStyle = colors.background;
@@ -42,16 +43,76 @@ export class ClassicRenderer implements TunerRenderer {
 
     // Draw the meter
     this.drawMeter(ctx, w, h, displayedCents, isListening, colors);
+
+    // Precision-tune average outside the scale, spread as a band around it
+    if (average && isListening) {
+      this.drawAverageMarker(ctx, w, h, average, centsPrecision ?? 1, colors);
+    }
     
     // Draw note display
+    ctx.globalAlpha = readoutOpacity(pitch);
     this.drawNoteDisplay(ctx, w, h, pitch, displayedCents, isListening, colors);
+    ctx.globalAlpha = 1;
     
     // Draw frequency if enabled
     if (showFrequency) {
-      this.drawFrequencyDisplay(ctx, w, h, pitch, displayedCents, isListening, colors);
+      this.drawFrequencyDisplay(ctx, w, h, pitch, displayedCents, isListening, centsPrecision ?? 1, colors);
+    }
+
+    drawStringTarget(ctx, w, pitch, colors);
+
+    if (isHolding) {
+      this.drawHoldIndicator(ctx, colors);
     }
   }
 
+  private drawAverageMarker(ctx: CanvasRenderingContext2D, w: number, h: number, average: PitchAverage, centsPrecision: CentsPrecision, colors: TunerColors): void {
+    const isPortrait = h > w;
+    const centerX = isPortrait ? w / 2 : w * 0.65;
+    const centerY = isPortrait ? h * 0.65 : h * 0.7;
+    const radius = isPortrait ? w * 0.4 : Math.min(w * 0.3, h * 0.5);
+    const markerRadius = radius + 14;
+    const angleAt = (cents: number) => Math.PI + (Math.max(-50, Math.min(50, cents)) / 50 + 1) * Math.PI / 2;
+
+    // Spread band
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, markerRadius, angleAt(average.meanCents - average.spreadCents), angleAt(average.meanCents + average.spreadCents));
+    ctx.strokeStyle = colors.accent + '50';
+    ctx.lineWidth = 6;
+    ctx.lineCap = 'round';
+    ctx.stroke();
+
+    // Mean marker, a triangle pointing at the scale
+    const angle = angleAt(average.meanCents);
+    const tipX = centerX + (radius + 6) * Math.cos(angle);
+    const tipY = centerY + (radius + 6) * Math.sin(angle);
+    const baseRadius = radius + 22;
+    const spread = 0.025;
+    ctx.beginPath();
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(centerX + baseRadius * Math.cos(angle - spread), centerY + baseRadius * Math.sin(angle - spread));
+    ctx.lineTo(centerX + baseRadius * Math.cos(angle + spread), centerY + baseRadius * Math.sin(angle + spread));
+    ctx.closePath();
+    ctx.fillStyle = colors.accent;
+    ctx.fill();
+
+    // Numeric mean and spread below the pivot
+    ctx.font = '14px monospace';
+    ctx.fillStyle = colors.accent;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`avg ${formatCents(average.meanCents, centsPrecision)}¢  ±${average.spreadCents.toFixed(1)}`, centerX, centerY + 40);
+  }
+
+  // Top left, clear of the settings button
+  private drawHoldIndicator(ctx: CanvasRenderingContext2D, colors: TunerColors): void {
+    ctx.font = 'bold 14px system-ui';
+    ctx.fillStyle = colors.accent;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('HOLD', 24, 37);
+  }
+
   private drawMeter(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, colors: TunerColors): void {
     const isPortrait = h > w;
     const centerX = isPortrait ? w / 2 : w * 0.65;
@@ -224,7 +285,7 @@ export class ClassicRenderer implements TunerRenderer {
     }
   }
 
-  private drawFrequencyDisplay(ctx: CanvasRenderingContext2D, w: number, h: number, pitch: any, displayedCents: number, isListening: boolean, colors: TunerColors): void {
+  private drawFrequencyDisplay(ctx: CanvasRenderingContext2D, w: number, h: number, pitch: any, displayedCents: number, isListening: boolean, centsPrecision: CentsPrecision, colors: TunerColors): void {
     const isPortrait = h > w;
     const freqX = isPortrait ? w / 2 : w * 0.22;
     const freqY = isPortrait ? h * 0.88 : h * 0.65;
@@ -235,7 +296,7 @@ export class ClassicRenderer implements TunerRenderer {
     ctx.textBaseline = 'middle';
 
     if (pitch && isListening) {
-      const centsText = displayedCents >= 0 ? `+${Math.round(displayedCents)}` : `${Math.round(displayedCents)}`;
+      const centsText = formatCents(displayedCents, centsPrecision);
       if (isPortrait) {
         ctx.fillText(`${pitch.frequency.toFixed(1)} Hz  •  ${centsText}¢`, freqX, freqY);
       } else {
@@ -0,0 +1,204 @@
+import type { DrumLugState, LugReading } from '../drum-lugs';
+import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+
+/**
+ * Drum renderer
+ * The head seen from above with its lugs around the rim
+ * Each lug is coloured by how far its pitch sits from the average of the
+ * head, and a tension outline bulges out at sharp lugs and in at flat ones,
+ * so an even head draws a round outline
+ */
+
+const DARK_COLORS: TunerColors = {
+  background: '#0a0a0a',
+  text: '#ffffff',
+  textSecondary: '#666666',
+  inTune: '#00ff00',
+  sharp: '#ff9900',
+  flat: '#3399ff',
+  accent: '#00ff00'
+};
+
+const LIGHT_COLORS: TunerColors = {
+  background: '#1a1a1a',
+  text: '#ffffff',
+  textSecondary: '#888888',
+  inTune: '#00ff00',
+  sharp: '#ffaa33',
+  flat: '#55aaff',
+  accent: '#00ff00'
+};
+
+// Lugs within this many cents of the average count as even
+const EVEN_CENTS = 10;
+// Deviation that moves the tension outline out to the rim
+const OUTLINE_RANGE_CENTS = 50;
+
+export class DrumRenderer implements TunerRenderer {
+  name = 'Drum';
+  description = 'Lug by lug head tension';
+
+  getColors(theme: 'dark' | 'light'): TunerColors {
+    return theme === 'dark' ? DARK_COLORS : LIGHT_COLORS;
+  }
+
+  render(context: TunerRendererContext): void {
+    const colors = this.getColors('dark');
+    this.renderWithColors(context, colors);
+  }
+
+  renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
+    const { ctx, width: w, height: h, isListening, drum } = context;
+
+    ctx.fillStyle = colors.background;
+    ctx.fillRect(0, 0, w, h);
+
+    if (!drum || drum.lugs.length === 0) return;
+
+    const centerX = w / 2;
+    const centerY = h * 0.45;
+    const radius = Math.min(w, h) * 0.3;
+
+    this.drawHead(ctx, centerX, centerY, radius, colors);
+    this.drawTensionOutline(ctx, centerX, centerY, radius, drum, colors);
+    drum.lugs.forEach((lug, index) => {
+      this.drawLug(ctx, centerX, centerY, radius, drum.lugs.length, index, lug, index === drum.currentLug, colors);
+    });
+    this.drawLastReading(ctx, centerX, centerY, drum, isListening, colors);
+    this.drawSpread(ctx, w, h, drum, colors);
+  }
+
+  private lugAngle(index: number, lugCount: number): number {
+    // Lug 1 at the top, numbered clockwise
+    return -Math.PI / 2 + (index / lugCount) * Math.PI * 2;
+  }
+
+  private centsColor(cents: number, colors: TunerColors): string {
+    if (Math.abs(cents) <= EVEN_CENTS) return colors.inTune;
+    return cents > 0 ? colors.sharp : colors.flat;
+  }
+
+  private drawHead(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, colors: TunerColors): void {
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = colors.textSecondary + '15';
+    ctx.fill();
+    ctx.strokeStyle = colors.textSecondary;
+    ctx.lineWidth = 4;
+    ctx.stroke();
+
+    // Even-tension reference circle
+    ctx.beginPath();
+    ctx.arc(x, y, radius * 0.6, 0, Math.PI * 2);
+    ctx.strokeStyle = colors.textSecondary + '60';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  private drawTensionOutline(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, drum: DrumLugState, colors: TunerColors): void {
+    const read = drum.lugs.filter(lug => lug !== null).length;
+    if (read < 2) return;
+
+    // Lugs not read yet sit on the reference circle
+    ctx.beginPath();
+    drum.lugs.forEach((lug, index) => {
+      const cents = Math.max(-OUTLINE_RANGE_CENTS, Math.min(OUTLINE_RANGE_CENTS, lug?.fundamentalCents ?? 0));
+      const r = radius * (0.6 + 0.4 * cents / OUTLINE_RANGE_CENTS);
+      const angle = this.lugAngle(index, drum.lugs.length);
+      const px = x + Math.cos(angle) * r;
+      const py = y + Math.sin(angle) * r;
+      if (index === 0) {
+        ctx.moveTo(px, py);
+      } else {
+        ctx.lineTo(px, py);
+      }
+    });
+    ctx.closePath();
+
+    const even = drum.spreadCents <= EVEN_CENTS * 2;
+    ctx.fillStyle = (even ? colors.inTune : colors.sharp) + '20';
+    ctx.fill();
+    ctx.strokeStyle = even ? colors.inTune : colors.sharp;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }
+
+  private drawLug(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, lugCount: number, index: number, lug: LugReading | null, isCurrent: boolean, colors: TunerColors): void {
+    const angle = this.lugAngle(index, lugCount);
+    const lugX = x + Math.cos(angle) * radius * 1.12;
+    const lugY = y + Math.sin(angle) * radius * 1.12;
+    const lugRadius = Math.max(12, Math.min(20, radius * 0.12));
+
+    ctx.beginPath();
+    ctx.arc(lugX, lugY, lugRadius, 0, Math.PI * 2);
+    ctx.fillStyle = lug ? this.centsColor(lug.fundamentalCents, colors) : colors.textSecondary + '30';
+    ctx.fill();
+
+    if (isCurrent) {
+      ctx.beginPath();
+      ctx.arc(lugX, lugY, lugRadius + 5, 0, Math.PI * 2);
+      ctx.strokeStyle = colors.text;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    ctx.font = `bold ${Math.round(lugRadius * 0.9)}px system-ui`;
+    ctx.fillStyle = lug ? colors.background : colors.textSecondary;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`${index + 1}`, lugX, lugY);
+
+    if (!lug) return;
+
+    // Pitch and deviation just outside the lug
+    const labelX = x + Math.cos(angle) * (radius * 1.12 + lugRadius + 30);
+    const labelY = y + Math.sin(angle) * (radius * 1.12 + lugRadius + 22);
+    const cents = Math.round(lug.fundamentalCents);
+    ctx.font = '13px monospace';
+    ctx.fillStyle = colors.text;
+    ctx.fillText(`${lug.fundamental.toFixed(1)}`, labelX, labelY - 8);
+    ctx.fillStyle = this.centsColor(lug.fundamentalCents, colors);
+    ctx.fillText(`${cents > 0 ? '+' : ''}${cents}¢`, labelX, labelY + 8);
+  }
+
+  private drawLastReading(ctx: CanvasRenderingContext2D, x: number, y: number, drum: DrumLugState, isListening: boolean, colors: TunerColors): void {
+    const lugCount = drum.lugs.length;
+    const lastIndex = (drum.currentLug - 1 + lugCount) % lugCount;
+    const last = drum.lugs[lastIndex];
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    if (!last) {
+      ctx.font = 'bold 22px system-ui';
+      ctx.fillStyle = colors.textSecondary + (isListening ? '' : '60');
+      ctx.fillText(`Tap near lug ${drum.currentLug + 1}`, x, y);
+      return;
+    }
+
+    ctx.font = 'bold 40px system-ui';
+    ctx.fillStyle = colors.text;
+    ctx.fillText(`${last.fundamental.toFixed(1)}`, x, y - 12);
+
+    ctx.font = '14px system-ui';
+    ctx.fillStyle = colors.textSecondary;
+    const overtone = last.overtone > 0 ? `  ·  overtone ${last.overtone.toFixed(0)} Hz` : '';
+    ctx.fillText(`Hz at lug ${lastIndex + 1}${overtone}`, x, y + 20);
+  }
+
+  private drawSpread(ctx: CanvasRenderingContext2D, w: number, h: number, drum: DrumLugState, colors: TunerColors): void {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    ctx.font = 'bold 18px system-ui';
+    ctx.fillStyle = drum.spreadCents <= EVEN_CENTS * 2 ? colors.inTune : colors.sharp;
+    const read = drum.lugs.filter(lug => lug !== null).length;
+    ctx.fillText(read > 1 ? `Spread ${Math.round(drum.spreadCents)}¢` : 'Spread --', w / 2, h * 0.8);
+
+    ctx.font = '14px system-ui';
+    ctx.fillStyle = colors.textSecondary;
+    ctx.fillText(`Next: lug ${drum.currentLug + 1} of ${drum.lugs.length}`, w / 2, h * 0.8 + 26);
+  }
+}
@@ -5,3 +5,5 @@ export * from './pitchblack.renderer';
 export * from './walrus-canvas.renderer';
 export * from './boss-chromatic.renderer';
 export * from './modern.renderer';
+export * from './polyphonic.renderer';
+export * from './drum.renderer';
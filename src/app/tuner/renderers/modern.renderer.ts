@@ -1,11 +1,18 @@
-import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+import { SpectrumData } from '../audio.service';
+import { TunerColors, TunerRenderer, TunerRendererContext, drawStringTarget, readoutOpacity } from './tuner-renderer.interface';
 
 /**
  * Modern renderer
  * Minimal dark design with organic waveform and frequency spectrum
  * Features a large centered note, wavy background shape, and spectrum bars
+ * drawn from the live FFT with the fundamental and overtones labelled
  */
 
+const HARMONIC_COUNT = 6;
+const IDLE_MIN_FREQUENCY = 40;
+const IDLE_MAX_FREQUENCY = 2000;
+const SPECTRUM_FLOOR_DB = -60;
+
 const DARK_COLORS: TunerColors = {
   background: '#000000',
   text: '#e0e0e0',
@@ -44,7 +51,7 @@ export class ModernRenderer implements TunerRenderer {
   }
 
   renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
-    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency } = context;
+    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency, spectrum, isHolding } = context;
 
     // Animate wave
     const now = Date.now();
@@ -65,7 +72,9 @@ export class ModernRenderer implements TunerRenderer {
     this.drawWaveform(ctx, w, h, displayedCents, isListening, pitch, colors);
 
     // Draw large centered note
+    ctx.globalAlpha = readoutOpacity(pitch);
     this.drawNoteDisplay(ctx, w, h, pitch, displayedCents, isListening, referencePitch, colors);
+    ctx.globalAlpha = 1;
 
     // Draw detected frequency in accent color
     if (showFrequency) {
@@ -73,7 +82,35 @@ export class ModernRenderer implements TunerRenderer {
     }
 
     // Draw spectrum bars at the bottom
-    this.drawSpectrumBars(ctx, w, h, displayedCents, isListening, pitch, colors);
+    this.drawSpectrumBars(ctx, w, h, displayedCents, isListening, pitch, spectrum ?? null, colors);
+
+    drawStringTarget(ctx, w, pitch, colors);
+
+    if (isHolding) {
+      this.drawHoldIndicator(ctx, colors);
+    }
+  }
+
+  // Accent pill, top left
+  private drawHoldIndicator(ctx: CanvasRenderingContext2D, colors: TunerColors): void {
+    const x = 20;
+    const y = 26;
+    const pillWidth = 58;
+    const pillHeight = 22;
+    const radius = pillHeight / 2;
+
+    ctx.fillStyle = colors.accent;
+    ctx.beginPath();
+    ctx.arc(x + radius, y + radius, radius, Math.PI / 2, Math.PI * 1.5);
+    ctx.arc(x + pillWidth - radius, y + radius, radius, Math.PI * 1.5, Math.PI / 2);
+    ctx.closePath();
+    ctx.fill();
+
+    ctx.font = '600 12px system-ui';
+    ctx.fillStyle = colors.background;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('HOLD', x + pillWidth / 2, y + radius);
   }
 
   private drawWaveform(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, pitch: any, colors: TunerColors): void {
@@ -207,11 +244,11 @@ export class ModernRenderer implements TunerRenderer {
     }
   }
 
-  private drawSpectrumBars(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, pitch: any, colors: TunerColors): void {
+  private drawSpectrumBars(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, pitch: any, spectrum: SpectrumData | null, colors: TunerColors): void {
     const barAreaY = h * 0.75;
     const barAreaHeight = h * 0.24;
-    const barCount = 32;
-    const barGap = 3;
+    const barCount = 48;
+    const barGap = 2;
     const totalWidth = w * 0.85;
     const barWidth = (totalWidth - barGap * (barCount - 1)) / barCount;
     const startX = (w - totalWidth) / 2;
@@ -221,28 +258,32 @@ export class ModernRenderer implements TunerRenderer {
       this.spectrumValues = new Array(barCount).fill(0);
     }
 
+    // With a pitch, span half the fundamental up to just past the last labelled
+    // overtone so harmonics land at evenly spaced positions
+    const fundamental = isListening && pitch ? pitch.frequency : 0;
+    const minFrequency = fundamental > 0 ? fundamental * 0.5 : IDLE_MIN_FREQUENCY;
+    const maxFrequency = fundamental > 0 ? fundamental * (HARMONIC_COUNT + 0.5) : IDLE_MAX_FREQUENCY;
+    const frequencyAt = (x: number) => minFrequency + (x / totalWidth) * (maxFrequency - minFrequency);
+
+    // Loudest bin in view, used as the 0 dB reference
+    let peakMagnitude = 0;
+    if (isListening && spectrum) {
+      const firstBin = Math.floor(minFrequency / spectrum.binWidth);
+      const lastBin = Math.min(spectrum.magnitudes.length - 1, Math.ceil(maxFrequency / spectrum.binWidth));
+      for (let k = firstBin; k <= lastBin; k++) {
+        peakMagnitude = Math.max(peakMagnitude, spectrum.magnitudes[k]);
+      }
+    }
+
     // Update spectrum values with smooth decay
     for (let i = 0; i < barCount; i++) {
       let target: number;
-      if (isListening && pitch) {
-        // Create a frequency-spectrum-like pattern
-        const centerIndex = barCount / 2;
-        const distFromCenter = Math.abs(i - centerIndex) / centerIndex;
-
-        // Main peak around the center, influenced by cents
-        const centsOffset = displayedCents / 50;
-        const peakPosition = centerIndex + centsOffset * (barCount * 0.3);
-        const distFromPeak = Math.abs(i - peakPosition) / (barCount * 0.5);
-
-        // Gaussian-like falloff from peak
-        const peakInfluence = Math.exp(-distFromPeak * distFromPeak * 4);
-
-        // Add some noise/variation
-        const noise = Math.sin(i * 2.5 + this.wavePhase * 3) * 0.15 + 
-                      Math.sin(i * 4.7 - this.wavePhase * 2) * 0.1;
-
-        target = (peakInfluence * 0.8 + noise * 0.3 + 0.05) * barAreaHeight;
-        target = Math.max(barAreaHeight * 0.03, Math.min(barAreaHeight * 0.95, target));
+      if (isListening && spectrum && peakMagnitude > 0) {
+        const barStart = i * (barWidth + barGap);
+        const magnitude = this.sampleSpectrum(spectrum, frequencyAt(barStart), frequencyAt(barStart + barWidth));
+        const db = 20 * Math.log10(magnitude / peakMagnitude + 1e-9);
+        const level = Math.max(0, 1 - db / SPECTRUM_FLOOR_DB);
+        target = Math.max(barAreaHeight * 0.03, level * barAreaHeight * 0.95);
       } else {
         // Quiet idle animation
         const idleNoise = Math.sin(i * 0.8 + this.wavePhase * 0.5) * 0.5 + 0.5;
@@ -250,7 +291,7 @@ export class ModernRenderer implements TunerRenderer {
       }
 
       // Smooth transition
-      this.spectrumValues[i] += (target - this.spectrumValues[i]) * 0.15;
+      this.spectrumValues[i] += (target - this.spectrumValues[i]) * 0.3;
     }
 
     // Draw bars
@@ -279,5 +320,42 @@ export class ModernRenderer implements TunerRenderer {
       ctx.fillStyle = indicatorColor;
       ctx.fillRect(indicatorX - indicatorWidth / 2, barAreaY, indicatorWidth, indicatorHeight);
     }
+
+    // Label the fundamental and its overtones above the bars
+    if (fundamental > 0 && spectrum) {
+      ctx.font = `${Math.max(11, h * 0.016)}px system-ui`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+
+      for (let harmonic = 1; harmonic <= HARMONIC_COUNT; harmonic++) {
+        const x = startX + ((fundamental * harmonic - minFrequency) / (maxFrequency - minFrequency)) * totalWidth;
+        const label = harmonic === 1 ? `${pitch.note}${pitch.octave}` : `${harmonic}×`;
+
+        ctx.fillStyle = harmonic === 1 ? colors.text : colors.textSecondary;
+        ctx.fillRect(x - 0.5, barAreaY - 6, 1, 6);
+        ctx.fillText(label, x, barAreaY - 8);
+      }
+    }
+  }
+
+  // Peak magnitude between two frequencies, interpolating when the span is narrower than a bin
+  private sampleSpectrum(spectrum: SpectrumData, fromFrequency: number, toFrequency: number): number {
+    const { magnitudes, binWidth } = spectrum;
+    const fromBin = fromFrequency / binWidth;
+    const toBin = toFrequency / binWidth;
+
+    if (Math.floor(toBin) > Math.ceil(fromBin)) {
+      let peak = 0;
+      for (let k = Math.ceil(fromBin); k <= Math.floor(toBin) && k < magnitudes.length; k++) {
+        peak = Math.max(peak, magnitudes[k]);
+      }
+      return peak;
+    }
+
+    const centerBin = (fromBin + toBin) / 2;
+    const lower = Math.floor(centerBin);
+    if (lower + 1 >= magnitudes.length) return 0;
+    const fraction = centerBin - lower;
+    return magnitudes[lower] * (1 - fraction) + magnitudes[lower + 1] * fraction;
   }
 }
@@ -1,4 +1,4 @@
-import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+import { TunerColors, TunerRenderer, TunerRendererContext, drawStringTarget, readoutOpacity } from './tuner-renderer.interface';
 
 /**
  * Circular LED renderer
@@ -40,7 +40,7 @@ export class PitchblackRenderer implements TunerRenderer {
   }
 
   renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
-    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency } = context;
+    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency, isHolding } = context;
 
     // Pure black background
     ctx.fillStyle = colors.background;
@@ -50,12 +50,38 @@ export class PitchblackRenderer implements TunerRenderer {
     this.drawCircularMeter(ctx, w, h, displayedCents, isListening, colors);
     
     // Draw note display in center
+    ctx.globalAlpha = readoutOpacity(pitch);
     this.drawNoteDisplay(ctx, w, h, pitch, displayedCents, isListening, colors);
+    ctx.globalAlpha = 1;
     
     // Draw frequency if enabled
     if (showFrequency) {
       this.drawFrequencyDisplay(ctx, w, h, pitch, isListening, colors);
     }
+
+    drawStringTarget(ctx, w, pitch, colors);
+
+    if (isHolding) {
+      this.drawHoldIndicator(ctx, colors);
+    }
+  }
+
+  // Ring-shaped LED echoing the circular meter
+  private drawHoldIndicator(ctx: CanvasRenderingContext2D, colors: TunerColors): void {
+    const ledX = 30;
+    const ledY = 37;
+
+    ctx.strokeStyle = colors.accent;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(ledX, ledY, 6, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.font = '14px system-ui';
+    ctx.fillStyle = colors.accent;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('HOLD', ledX + 14, ledY);
   }
 
   private drawCircularMeter(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, colors: TunerColors): void {
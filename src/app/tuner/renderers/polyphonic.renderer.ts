@@ -0,0 +1,147 @@
+import { StringDeviation } from '../audio.service';
+import { CentsPrecision, TunerColors, TunerRenderer, TunerRendererContext, formatCents } from './tuner-renderer.interface';
+
+/**
+ * Polyphonic renderer
+ * One vertical LED column per open string, like a strum-all pedal
+ * Features a lit segment showing each string's deviation from its target
+ */
+
+const DARK_COLORS: TunerColors = {
+  background: '#0a0a0a',
+  text: '#ffffff',
+  textSecondary: '#666666',
+  inTune: '#00ff00',
+  sharp: '#ff0000',
+  flat: '#ff0000',
+  accent: '#00ff00'
+};
+
+const LIGHT_COLORS: TunerColors = {
+  background: '#1a1a1a',
+  text: '#ffffff',
+  textSecondary: '#888888',
+  inTune: '#00ff00',
+  sharp: '#ff3333',
+  flat: '#ff3333',
+  accent: '#00ff00'
+};
+
+const SEGMENT_COUNT = 11; // -50 to +50 cents in 10 cent steps, center is in tune
+const IN_TUNE_CENTS = 3;
+
+export class PolyphonicRenderer implements TunerRenderer {
+  name = 'Polyphonic';
+  description = 'All strings at once';
+
+  private displayedCents: number[] = [];
+
+  getColors(theme: 'dark' | 'light'): TunerColors {
+    return theme === 'dark' ? DARK_COLORS : LIGHT_COLORS;
+  }
+
+  render(context: TunerRendererContext): void {
+    const colors = this.getColors('dark');
+    this.renderWithColors(context, colors);
+  }
+
+  renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
+    const { ctx, width: w, height: h, isListening, strings, centsPrecision } = context;
+
+    ctx.fillStyle = colors.background;
+    ctx.fillRect(0, 0, w, h);
+
+    if (!strings || strings.length === 0) {
+      this.displayedCents = [];
+      this.drawPrompt(ctx, w, h, isListening, colors);
+      return;
+    }
+
+    // Smooth each string's reading independently
+    if (this.displayedCents.length !== strings.length) {
+      this.displayedCents = strings.map(s => s.cents);
+    }
+    strings.forEach((s, i) => {
+      if (s.detected) {
+        this.displayedCents[i] += (s.cents - this.displayedCents[i]) * 0.2;
+      }
+    });
+
+    const columnSpacing = Math.min(w / (strings.length + 1), 90);
+    const startX = w / 2 - (columnSpacing * (strings.length - 1)) / 2;
+
+    strings.forEach((s, i) => {
+      this.drawStringColumn(ctx, startX + i * columnSpacing, h, columnSpacing, s, this.displayedCents[i], isListening, centsPrecision ?? 1, colors);
+    });
+
+    this.drawLegend(ctx, w, h, colors);
+  }
+
+  private drawStringColumn(ctx: CanvasRenderingContext2D, x: number, h: number, spacing: number, deviation: StringDeviation, cents: number, isListening: boolean, centsPrecision: CentsPrecision, colors: TunerColors): void {
+    const columnTop = h * 0.18;
+    const columnHeight = h * 0.5;
+    const segmentHeight = columnHeight / SEGMENT_COUNT;
+    const segmentWidth = spacing * 0.55;
+    const centerIndex = Math.floor(SEGMENT_COUNT / 2);
+
+    const active = isListening && deviation.detected;
+    const inTune = active && Math.abs(cents) <= IN_TUNE_CENTS;
+    const clampedCents = Math.max(-50, Math.min(50, cents));
+    // Sharp readings light segments above center, flat ones below
+    const litIndex = centerIndex - Math.round(clampedCents / 10);
+
+    for (let i = 0; i < SEGMENT_COUNT; i++) {
+      const segmentY = columnTop + i * segmentHeight;
+      const isCenter = i === centerIndex;
+
+      let fill = isCenter ? colors.inTune + '20' : colors.textSecondary + '15';
+      if (inTune && isCenter) {
+        fill = colors.inTune;
+      } else if (active && !inTune && i === litIndex) {
+        fill = clampedCents > 0 ? colors.sharp : colors.flat;
+      }
+
+      ctx.beginPath();
+      ctx.roundRect(x - segmentWidth / 2, segmentY + 2, segmentWidth, segmentHeight - 4, 3);
+      ctx.fillStyle = fill;
+      ctx.fill();
+      ctx.strokeStyle = colors.textSecondary + '40';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+
+    // String note below the column
+    const labelY = columnTop + columnHeight + 35;
+    ctx.font = `bold ${Math.min(36, spacing * 0.45)}px system-ui`;
+    ctx.fillStyle = inTune ? colors.inTune : (active ? colors.text : colors.textSecondary);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(deviation.note, x, labelY);
+
+    ctx.font = `${Math.min(16, spacing * 0.2)}px system-ui`;
+    ctx.fillStyle = colors.textSecondary;
+    ctx.fillText(`${deviation.octave}`, x, labelY + 26);
+
+    // Cents readout above the column
+    ctx.font = `${Math.min(14, spacing * 0.18)}px monospace`;
+    ctx.fillStyle = active ? colors.text : colors.textSecondary + '60';
+    const centsText = !active ? '--' : formatCents(cents, centsPrecision);
+    ctx.fillText(centsText, x, columnTop - 18);
+  }
+
+  private drawPrompt(ctx: CanvasRenderingContext2D, w: number, h: number, isListening: boolean, colors: TunerColors): void {
+    ctx.font = 'bold 28px system-ui';
+    ctx.fillStyle = colors.textSecondary + (isListening ? '' : '60');
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('Strum all strings', w / 2, h * 0.45);
+  }
+
+  private drawLegend(ctx: CanvasRenderingContext2D, w: number, h: number, colors: TunerColors): void {
+    ctx.font = '14px system-ui';
+    ctx.fillStyle = colors.textSecondary;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('▲ sharp   ● in tune   ▼ flat', w / 2, h * 0.9);
+  }
+}
@@ -1,4 +1,5 @@
-import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+import { PitchAverage } from '../audio.service';
+import { CentsPrecision, TunerColors, TunerRenderer, TunerRendererContext, formatCents, drawStringTarget, readoutOpacity } from './tuner-renderer.interface';
 
 /**
  * LED Bar renderer
@@ -41,7 +42,7 @@ export class PolytuneRenderer implements TunerRenderer {
   }
 
   renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
-    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency } = context;
+    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency, isHolding, average, centsPrecision } = context;
 
     // Dark background like a pedal display
     ctx.fillStyle = colors.background;
@@ -49,14 +50,72 @@ export class PolytuneRenderer implements TunerRenderer {
 
     // Draw the LED bar meter
     this.drawLEDMeter(ctx, w, h, displayedCents, isListening, colors);
+
+    // Precision-tune average as a marker under the LED row
+    if (average && isListening) {
+      this.drawAverageMarker(ctx, w, h, average, centsPrecision ?? 1, colors);
+    }
     
     // Draw note display
+    ctx.globalAlpha = readoutOpacity(pitch);
     this.drawNoteDisplay(ctx, w, h, pitch, displayedCents, isListening, colors);
+    ctx.globalAlpha = 1;
     
     // Draw frequency if enabled
     if (showFrequency) {
       this.drawFrequencyDisplay(ctx, w, h, pitch, isListening, colors);
     }
+
+    drawStringTarget(ctx, w, pitch, colors);
+
+    if (isHolding) {
+      this.drawHoldIndicator(ctx, colors);
+    }
+  }
+
+  private drawAverageMarker(ctx: CanvasRenderingContext2D, w: number, h: number, average: PitchAverage, centsPrecision: CentsPrecision, colors: TunerColors): void {
+    // Same geometry as the LED row
+    const centerX = w / 2;
+    const meterY = h * 0.65;
+    const ledCount = 21;
+    const ledWidth = Math.min(w * 0.7 / ledCount, 25);
+    const ledHeight = ledWidth * (h > w ? 3.5 : 1.8);
+    const halfWidth = ((ledCount - 1) * ledWidth * 1.3) / 2;
+    const xAt = (cents: number) => centerX + (Math.max(-50, Math.min(50, cents)) / 50) * halfWidth;
+
+    const markerY = meterY + ledHeight / 2 + 14;
+
+    // Spread bracket
+    ctx.strokeStyle = colors.accent + '80';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(xAt(average.meanCents - average.spreadCents), markerY);
+    ctx.lineTo(xAt(average.meanCents + average.spreadCents), markerY);
+    ctx.stroke();
+
+    // Mean segment
+    ctx.fillStyle = colors.accent;
+    ctx.fillRect(xAt(average.meanCents) - 2, markerY - 8, 4, 16);
+
+    ctx.font = 'bold 14px monospace';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`AVG ${formatCents(average.meanCents, centsPrecision)}¢ ±${average.spreadCents.toFixed(1)}`, centerX, markerY + 24);
+  }
+
+  // Single lit LED segment next to the label
+  private drawHoldIndicator(ctx: CanvasRenderingContext2D, colors: TunerColors): void {
+    const ledX = 24;
+    const ledY = 37;
+
+    ctx.fillStyle = colors.accent;
+    ctx.fillRect(ledX, ledY - 6, 6, 12);
+
+    ctx.font = 'bold 14px monospace';
+    ctx.fillStyle = colors.accent;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('HOLD', ledX + 12, ledY);
   }
 
   private drawLEDMeter(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, colors: TunerColors): void {
@@ -1,4 +1,8 @@
-import { PitchData } from '../audio.service';
+import { PitchAverage, PitchData, SpectrumData, StringDeviation } from '../audio.service';
+import type { DrumLugState } from '../drum-lugs';
+import { CentsPrecision, LOW_CONFIDENCE } from '../readout';
+
+export { CentsPrecision, CENTS_PRECISION_INFO, LOW_CONFIDENCE } from '../readout';
 
 export type TunerStyle = 'classic' | 'polytune' | 'pitchblack' | 'walrus' | 'boss' | 'modern';
 
@@ -21,6 +25,13 @@ export interface TunerRendererContext {
   isListening: boolean;
   referencePitch: number;
   showFrequency: boolean;
+  spectrum?: SpectrumData | null;
+  strings?: StringDeviation[] | null;
+  lastOnset?: number | null; // Date.now() of the latest note attack
+  centsPrecision?: CentsPrecision;
+  isHolding?: boolean; // Showing the last reading after the note died away
+  average?: PitchAverage | null; // Precision-tune mean and spread, when enabled
+  drum?: DrumLugState | null;    // Lug readings in drum mode
 }
 
 export interface TunerRenderer {
@@ -38,3 +49,29 @@ export const TUNER_STYLE_INFO: Record<TunerStyle, { name: string; description: s
   boss: { name: 'Chromatic', description: 'Horizontal LED bar' },
   modern: { name: 'Modern', description: 'Minimal waveform display' }
 };
+
+// Signed cents readout such as "+3", "-2.5" or "+0.3", rounded to the precision
+export function formatCents(cents: number, precision: CentsPrecision = 1): string {
+  const decimals = precision < 1 ? 1 : 0;
+  const rounded = Math.round(cents / precision) * precision;
+  const text = Math.abs(rounded).toFixed(decimals);
+  return rounded < 0 && Number(text) !== 0 ? `-${text}` : `+${text}`;
+}
+
+// Opacity for the note readout: full for reliable readings, fading towards 0.35
+// as the detector's confidence drops
+export function readoutOpacity(pitch: PitchData | null): number {
+  if (!pitch || pitch.confidence >= LOW_CONFIDENCE) return 1;
+  return 0.35 + (0.65 * Math.max(0, pitch.confidence)) / LOW_CONFIDENCE;
+}
+
+// Matched string and its target, such as "String 6 · 82.4 Hz", across the top in string mode
+export function drawStringTarget(ctx: CanvasRenderingContext2D, w: number, pitch: PitchData | null, colors: TunerColors): void {
+  if (!pitch?.stringNumber || !pitch.targetFrequency) return;
+
+  ctx.font = 'bold 14px system-ui';
+  ctx.fillStyle = colors.textSecondary;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`String ${pitch.stringNumber}  ·  ${pitch.targetFrequency.toFixed(1)} Hz`, w / 2, 37);
+}
@@ -1,4 +1,4 @@
-import { TunerColors, TunerRenderer, TunerRendererContext } from './tuner-renderer.interface';
+import { CentsPrecision, TunerColors, TunerRenderer, TunerRendererContext, formatCents, drawStringTarget, readoutOpacity } from './tuner-renderer.interface';
 
 /**
  * Strobe renderer
@@ -43,15 +43,16 @@ export class WalrusCanvasRenderer implements TunerRenderer {
   }
 
   renderWithColors(context: TunerRendererContext, colors: TunerColors): void {
-    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency } = context;
+    const { ctx, width: w, height: h, pitch, displayedCents, isListening, referencePitch, showFrequency, centsPrecision, isHolding } = context;
 
     // Update strobe animation
     const now = Date.now();
     const deltaTime = (now - this.lastTime) / 1000;
     this.lastTime = now;
     
-    // Strobe speed based on cents offset - stops when in tune
-    if (isListening && pitch) {
+    // Strobe speed based on cents offset - stops when in tune, and freezes
+    // with the held reading
+    if (isListening && pitch && !isHolding) {
       const strobeSpeed = displayedCents * 8; // Speed proportional to cents offset
       this.strobePhase += strobeSpeed * deltaTime;
     }
@@ -64,12 +65,36 @@ export class WalrusCanvasRenderer implements TunerRenderer {
     this.drawStrobeDisplay(ctx, w, h, displayedCents, isListening, pitch, colors);
     
     // Draw note display (large centered note)
+    ctx.globalAlpha = readoutOpacity(pitch);
     this.drawNoteDisplay(ctx, w, h, pitch, displayedCents, isListening, colors);
+    ctx.globalAlpha = 1;
     
     // Draw frequency if enabled (bottom right)
     if (showFrequency) {
-      this.drawFrequencyDisplay(ctx, w, h, pitch, isListening, referencePitch, colors);
+      this.drawFrequencyDisplay(ctx, w, h, pitch, displayedCents, isListening, referencePitch, centsPrecision ?? 1, colors);
     }
+
+    drawStringTarget(ctx, w, pitch, colors);
+
+    if (isHolding) {
+      this.drawHoldIndicator(ctx, colors);
+    }
+  }
+
+  // Outlined tag, in the style of the strobe's panel labels
+  private drawHoldIndicator(ctx: CanvasRenderingContext2D, colors: TunerColors): void {
+    const x = 20;
+    const y = 26;
+
+    ctx.strokeStyle = colors.accent;
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(x, y, 54, 22);
+
+    ctx.font = 'bold 13px system-ui';
+    ctx.fillStyle = colors.accent;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('HOLD', x + 27, y + 11);
   }
 
   private drawStrobeDisplay(ctx: CanvasRenderingContext2D, w: number, h: number, displayedCents: number, isListening: boolean, pitch: any, colors: TunerColors): void {
@@ -230,7 +255,7 @@ export class WalrusCanvasRenderer implements TunerRenderer {
     }
   }
 
-  private drawFrequencyDisplay(ctx: CanvasRenderingContext2D, w: number, h: number, pitch: any, isListening: boolean, referencePitch: number, colors: TunerColors): void {
+  private drawFrequencyDisplay(ctx: CanvasRenderingContext2D, w: number, h: number, pitch: any, displayedCents: number, isListening: boolean, referencePitch: number, centsPrecision: CentsPrecision, colors: TunerColors): void {
     // Reference pitch display (bottom right of "screen" area)
     const refX = w * 0.85;
     const refY = h * 0.75;
@@ -246,6 +271,8 @@ export class WalrusCanvasRenderer implements TunerRenderer {
       ctx.font = '16px monospace';
       ctx.fillStyle = colors.textSecondary + '80';
       ctx.fillText(`${pitch.frequency.toFixed(1)} Hz`, refX, refY + 25);
+      // A strobe is read for fine offsets, so show them as a number as well
+      ctx.fillText(`${formatCents(displayedCents, centsPrecision)}¢`, refX, refY + 45);
     }
   }
 }
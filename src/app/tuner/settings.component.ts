@@ -4,6 +4,16 @@ import { ModalDialogParams } from '@nativescript/angular';
 import { Application, isAndroid, isIOS } from '@nativescript/core';
 import { AppSettings, SettingsService } from './settings.service';
 import { TunerStyle } from './renderers';
+import { CentsPrecision } from './readout';
+import { PitchAlgorithm, Temperament } from './audio-recorder';
+import { Observable, map } from 'rxjs';
+import { AUTO_BUFFER_SIZE, AUTO_NOISE_THRESHOLD, AudioService, HumNotchMode, SmoothingMode, TunerMode } from './audio.service';
+import { InstrumentType, INSTRUMENT_INFO } from './instruments';
+import { StretchService } from './stretch.service';
+import { StringHealthStatus, assessStringHealth, describeStringHealth } from './string-health';
+import { CUSTOM_TUNING_PREFIX, Tuning, describeTuning, transposeString } from './tunings';
+import { ToneWaveform } from './tone-player';
+import { ToneService } from './tone.service';
 
 declare const NSBundle: any;
 
@@ -16,14 +26,40 @@ declare const NSBundle: any;
 export class SettingsComponent implements OnInit {
   settings!: AppSettings;
   pitchPresets: { label: string; value: number }[];
+  temperaments: { value: Temperament; name: string; description: string }[];
+  tonics: { label: string; value: string }[];
+  displayHoldOptions: { label: string; value: number }[];
+  drumLugCounts: { label: string; value: number }[];
+  stringCounts: { label: string; value: number }[];
+  averageWindowOptions: { label: string; value: number }[];
   tunerStyles: { value: TunerStyle; name: string; description: string }[];
   bufferSizePresets: { label: string; value: number; description: string }[];
+  hopSizePresets: { label: string; value: number; description: string }[];
+  pitchAlgorithms: { value: PitchAlgorithm; name: string; description: string }[];
+  smoothingModes: { value: SmoothingMode; name: string; description: string }[];
+  centsPrecisions: { value: CentsPrecision; name: string; description: string }[];
+  humNotchModes: { value: HumNotchMode; name: string; description: string }[];
+  tunerModes: { value: TunerMode; name: string; description: string }[];
+  toneWaveforms: { value: ToneWaveform; name: string; description: string }[];
+  instruments: { value: InstrumentType; name: string; description: string }[];
   appVersion: string = '1.0.0';
+  gateLevel$: Observable<string>;
+  sampleRate$: Observable<number>;
+  measuredKeys$: Observable<number>;
+  playingTone$: Observable<string | null>;
+  stringHealthRows$: Observable<{ name: string; status: StringHealthStatus; description: string }[]>;
+  customTunings$: Observable<{ value: string; name: string; description: string }[]>;
   
   // Custom pitch editor state
   showCustomPitch = false;
   customPitchValue = 440.0;
 
+  // Note of the reference tone player
+  toneNote = { note: 'A', octave: 4 };
+
+  // Custom tuning editor state, null while closed
+  editingTuning: Tuning | null = null;
+
   // Static sensitivity levels (threshold values)
   readonly SENSITIVITY_LEVELS = [
     { label: 'Full', value: 0.001 },
@@ -36,12 +72,44 @@ export class SettingsComponent implements OnInit {
 
   constructor(
     private settingsService: SettingsService,
+    private audioService: AudioService,
+    private stretchService: StretchService,
+    private toneService: ToneService,
     private params: ModalDialogParams
   ) {
     this.pitchPresets = this.settingsService.PITCH_PRESETS;
+    this.temperaments = this.settingsService.TEMPERAMENTS;
+    this.tonics = this.settingsService.TONICS;
+    this.displayHoldOptions = this.settingsService.DISPLAY_HOLD_OPTIONS;
+    this.drumLugCounts = this.settingsService.DRUM_LUG_COUNTS;
+    this.stringCounts = this.settingsService.STRING_COUNTS;
+    this.averageWindowOptions = this.settingsService.AVERAGE_WINDOW_OPTIONS;
     this.tunerStyles = this.settingsService.TUNER_STYLES;
     this.bufferSizePresets = this.settingsService.BUFFER_SIZE_PRESETS;
+    this.hopSizePresets = this.settingsService.HOP_SIZE_PRESETS;
+    this.pitchAlgorithms = this.settingsService.PITCH_ALGORITHMS;
+    this.smoothingModes = this.settingsService.SMOOTHING_MODES;
+    this.centsPrecisions = this.settingsService.CENTS_PRECISIONS;
+    this.humNotchModes = this.settingsService.HUM_NOTCH_MODES;
+    this.tunerModes = this.settingsService.TUNER_MODES;
+    this.toneWaveforms = this.settingsService.TONE_WAVEFORMS;
+    this.playingTone$ = this.toneService.playing$;
+    this.instruments = this.settingsService.INSTRUMENTS;
     this.appVersion = this.getAppVersion();
+    this.sampleRate$ = this.audioService.sampleRate$;
+    this.measuredKeys$ = this.stretchService.samples$.pipe(map(samples => samples.length));
+    this.customTunings$ = this.settingsService.customTunings$.pipe(
+      map(tunings => tunings.map(tuning => ({ value: tuning.id, name: tuning.name, description: describeTuning(tuning) })))
+    );
+    this.stringHealthRows$ = this.settingsService.stringHealth$.pipe(
+      map(history => Object.entries(history).flatMap(([name, records]) => {
+        const assessment = assessStringHealth(records);
+        return assessment ? [{ name, status: assessment.status, description: describeStringHealth(assessment) }] : [];
+      }))
+    );
+    this.gateLevel$ = this.audioService.gateThreshold$.pipe(
+      map(threshold => `${Math.round(20 * Math.log10(threshold))} dBFS`)
+    );
   }
 
   private getAppVersion(): string {
@@ -66,6 +134,7 @@ export class SettingsComponent implements OnInit {
   }
 
   close(): void {
+    this.toneService.stop();
     this.params.closeCallback();
   }
 
@@ -100,13 +169,42 @@ export class SettingsComponent implements OnInit {
     this.settingsService.updateSettings({ showFrequency: !this.settings.showFrequency });
   }
 
+  // Steps from the level nearest the gate's threshold, the calibrated one in auto
   adjustSensitivity(direction: number): void {
-    const currentIndex = this.SENSITIVITY_LEVELS.findIndex(l => l.value === this.settings.noiseThreshold);
+    const threshold = this.isAutoSensitivity() ? this.audioService.gateThreshold : this.settings.noiseThreshold;
+    const currentIndex = this.nearestSensitivityIndex(threshold);
     const newIndex = Math.max(0, Math.min(this.SENSITIVITY_LEVELS.length - 1, currentIndex + direction));
     this.settingsService.updateSettings({ noiseThreshold: this.SENSITIVITY_LEVELS[newIndex].value });
   }
 
+  isAutoSensitivity(): boolean {
+    return this.settings.noiseThreshold === AUTO_NOISE_THRESHOLD;
+  }
+
+  // Leaving auto keeps the level closest to what was calibrated
+  toggleAutoSensitivity(): void {
+    if (!this.isAutoSensitivity()) {
+      this.settingsService.updateSettings({ noiseThreshold: AUTO_NOISE_THRESHOLD });
+      return;
+    }
+
+    const nearest = this.SENSITIVITY_LEVELS[this.nearestSensitivityIndex(this.audioService.gateThreshold)];
+    this.settingsService.updateSettings({ noiseThreshold: nearest.value });
+  }
+
+  private nearestSensitivityIndex(threshold: number): number {
+    const target = Math.log(threshold);
+    let nearest = 0;
+    this.SENSITIVITY_LEVELS.forEach((level, i) => {
+      if (Math.abs(Math.log(level.value) - target) < Math.abs(Math.log(this.SENSITIVITY_LEVELS[nearest].value) - target)) {
+        nearest = i;
+      }
+    });
+    return nearest;
+  }
+
   getSensitivityLabel(): string {
+    if (this.settings?.noiseThreshold === AUTO_NOISE_THRESHOLD) return 'Auto';
     const level = this.SENSITIVITY_LEVELS.find(l => l.value === this.settings?.noiseThreshold);
     return level?.label ?? 'High';
   }
@@ -115,14 +213,192 @@ export class SettingsComponent implements OnInit {
     this.settingsService.updateSettings({ keepScreenAwake: !this.settings.keepScreenAwake });
   }
 
+  selectDisplayHold(seconds: number): void {
+    this.settingsService.updateSettings({ displayHold: seconds });
+  }
+
   selectTunerStyle(style: TunerStyle): void {
     this.settingsService.updateSettings({ tunerStyle: style });
   }
 
+  selectTunerMode(mode: TunerMode): void {
+    this.settingsService.updateSettings({ tunerMode: mode });
+  }
+
+  selectTemperament(temperament: Temperament): void {
+    this.toneService.stop();
+    this.settingsService.updateSettings({ temperament });
+  }
+
+  selectTemperamentTonic(temperamentTonic: string): void {
+    this.toneService.stop();
+    this.settingsService.updateSettings({ temperamentTonic });
+  }
+
+  selectDrumLugCount(drumLugCount: number): void {
+    this.settingsService.updateSettings({ drumLugCount });
+  }
+
+  clearStretchCurve(): void {
+    this.stretchService.clear();
+  }
+
   selectBufferSize(value: number): void {
     this.settingsService.updateSettings({ bufferSize: value });
   }
 
+  selectHopSize(value: number): void {
+    this.settingsService.updateSettings({ hopSize: value });
+  }
+
+  selectInstrument(instrument: InstrumentType): void {
+    this.settingsService.updateSettings({ instrument });
+  }
+
+  get tunings(): { value: string; name: string; description: string }[] {
+    return this.settingsService.getTunings(this.settings.instrument);
+  }
+
+  selectTuning(tuning: string): void {
+    this.settingsService.updateSettings({ tuning });
+  }
+
+  // Start a new custom tuning from the selected one
+  newCustomTuning(): void {
+    const current = this.settingsService.getTuning(this.settings.instrument, this.settings.tuning);
+    this.editingTuning = {
+      id: `${CUSTOM_TUNING_PREFIX}${Date.now()}`,
+      name: `${current.name} (Custom)`,
+      strings: current.strings.map(string => ({ ...string }))
+    };
+  }
+
+  editCustomTuning(id: string): void {
+    const tuning = this.settingsService.getTuning(this.settings.instrument, id);
+    if (tuning.id !== id) return;
+    this.editingTuning = { ...tuning, strings: tuning.strings.map(string => ({ ...string })) };
+  }
+
+  renameTuning(name: string): void {
+    if (this.editingTuning) {
+      this.editingTuning.name = name;
+    }
+  }
+
+  // Strings are added a fourth above the highest and removed from the top
+  setStringCount(count: number): void {
+    const strings = this.editingTuning?.strings;
+    if (!strings || strings.length === 0) return;
+    while (strings.length < count) {
+      strings.push(transposeString({ ...strings[strings.length - 1], cents: 0 }, 5));
+    }
+    strings.length = count;
+  }
+
+  shiftStringNote(index: number, semitones: number): void {
+    const strings = this.editingTuning?.strings;
+    if (!strings) return;
+    const string = transposeString(strings[index], semitones);
+    if (string.octave >= 0 && string.octave <= 8) {
+      strings[index] = string;
+    }
+  }
+
+  shiftStringCents(index: number, delta: number): void {
+    const string = this.editingTuning?.strings[index];
+    if (!string) return;
+    string.cents = Math.max(-50, Math.min(50, (string.cents ?? 0) + delta));
+  }
+
+  saveCustomTuning(): void {
+    if (!this.editingTuning) return;
+    const tuning = { ...this.editingTuning, name: this.editingTuning.name.trim() || 'Custom' };
+    this.settingsService.saveCustomTuning(tuning);
+    this.settingsService.updateSettings({ tuning: tuning.id });
+    this.editingTuning = null;
+  }
+
+  cancelCustomTuning(): void {
+    this.editingTuning = null;
+  }
+
+  deleteCustomTuning(id: string): void {
+    if (this.editingTuning?.id === id) {
+      this.editingTuning = null;
+    }
+    this.settingsService.deleteCustomTuning(id);
+  }
+
+  // Explain when the chosen buffer is too short for the instrument's lowest note
+  getBufferSizeWarning(): string | null {
+    if (this.settings.bufferSize === AUTO_BUFFER_SIZE) return null;
+
+    const instrument = INSTRUMENT_INFO[this.settings.instrument] ?? INSTRUMENT_INFO.guitar;
+    const required = this.audioService.getMinimumBufferSize(instrument.minFrequency);
+    if (this.settings.bufferSize >= required) return null;
+
+    const preset = this.bufferSizePresets.find(p => p.value >= required);
+    const advice = preset ? `Choose ${preset.label} or a larger buffer.` : 'No preset is large enough.';
+    return `${instrument.name} needs at least ${required} samples to reach ${instrument.minFrequency} Hz. ${advice}`;
+  }
+
+  selectPitchAlgorithm(algorithm: PitchAlgorithm): void {
+    this.settingsService.updateSettings({ pitchAlgorithm: algorithm });
+  }
+
+  selectSmoothing(smoothing: SmoothingMode): void {
+    this.settingsService.updateSettings({ smoothing });
+  }
+
+  selectCentsPrecision(centsPrecision: CentsPrecision): void {
+    this.settingsService.updateSettings({ centsPrecision });
+  }
+
+  selectAverageWindow(seconds: number): void {
+    this.settingsService.updateSettings({ averageWindow: seconds });
+  }
+
+  toggleDcBlock(): void {
+    this.settingsService.updateSettings({ dcBlock: !this.settings.dcBlock });
+  }
+
+  toggleBandPass(): void {
+    this.settingsService.updateSettings({ bandPass: !this.settings.bandPass });
+  }
+
+  selectToneWaveform(toneWaveform: ToneWaveform): void {
+    this.toneService.stop();
+    this.settingsService.updateSettings({ toneWaveform });
+  }
+
+  toggleToneButtons(): void {
+    this.settingsService.updateSettings({ showToneButtons: !this.settings.showToneButtons });
+  }
+
+  shiftToneNote(semitones: number): void {
+    const next = transposeString(this.toneNote, semitones);
+    if (next.octave >= 0 && next.octave <= 8) {
+      this.toneService.stop();
+      this.toneNote = next;
+    }
+  }
+
+  playToneNote(): void {
+    this.toneService.toggleNote(this.toneNote.note, this.toneNote.octave);
+  }
+
+  toggleStringHealth(): void {
+    this.settingsService.updateSettings({ stringHealth: !this.settings.stringHealth });
+  }
+
+  clearStringHealth(): void {
+    this.settingsService.clearStringHealth();
+  }
+
+  selectHumNotch(humNotch: HumNotchMode): void {
+    this.settingsService.updateSettings({ humNotch });
+  }
+
   resetSettings(): void {
     this.settingsService.resetSettings();
   }
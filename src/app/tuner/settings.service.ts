@@ -1,30 +1,84 @@
 import { Injectable } from '@angular/core';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { BehaviorSubject, Observable, combineLatest, map } from 'rxjs';
 import { ApplicationSettings } from '@nativescript/core';
 import { keepAwake, allowSleepAgain } from '@nativescript-community/insomnia';
 import { TunerStyle, TUNER_STYLE_INFO } from './renderers';
+import { CentsPrecision, CENTS_PRECISION_INFO } from './readout';
+import { NOTE_NAMES, PitchAlgorithm, PITCH_ALGORITHM_INFO, Temperament, TEMPERAMENT_INFO } from './audio-recorder';
+import { AUTO_BUFFER_SIZE, AUTO_NOISE_THRESHOLD, HumNotchMode, SmoothingMode, TunerMode } from './audio.service';
+import { SMOOTHING_MODE_INFO } from './pitch-smoothing';
+import { InstrumentType, INSTRUMENT_INFO } from './instruments';
+import { StringHealthRecord, isUsableReading } from './string-health';
+import { TUNINGS, Tuning, describeTuning, getTuning } from './tunings';
+import { ToneWaveform, TONE_WAVEFORM_INFO } from './tone-player';
 
 export interface AppSettings {
   referencePitch: number;    // A4 frequency (default 440Hz)
+  temperament: Temperament;  // Tuning system for every target, equal by default
+  temperamentTonic: string;  // Key the temperament is built on
   theme: 'dark' | 'light';   // UI theme
-  noiseThreshold: number;    // Sensitivity (0.001 - 0.1)
+  noiseThreshold: number;    // Sensitivity (0.001 - 0.1), AUTO_NOISE_THRESHOLD to calibrate
   showFrequency: boolean;    // Show frequency display
+  displayHold: number;       // Seconds to keep the last reading, 0 = off
   keepScreenAwake: boolean;  // Prevent screen from turning off
   tunerStyle: TunerStyle;    // Visual style of the tuner
-  bufferSize: number;        // Audio buffer size (responsiveness)
+  bufferSize: number;        // Analysis window in samples (accuracy), AUTO_BUFFER_SIZE follows the note
+  hopSize: number;           // Samples between updates (responsiveness)
+  pitchAlgorithm: PitchAlgorithm; // Pitch detection algorithm
+  smoothing: SmoothingMode;  // Filter applied to the detected pitch
+  centsPrecision: CentsPrecision; // Step of numeric cents readouts
+  averageWindow: number;     // Precision-tune averaging in seconds, 0 = off
+  tunerMode: TunerMode;      // Single note, nearest string, strum all strings, drum head or stretched piano
+  drumLugCount: number;      // Tension rods around the drum head
+  instrument: InstrumentType; // Sets the detection frequency range
+  tuning: string;            // Tuning id among the instrument's TUNINGS
+  dcBlock: boolean;          // Remove DC offset before detection
+  bandPass: boolean;         // Band-limit input to the instrument range
+  humNotch: HumNotchMode;    // Mains hum notch filter
+  stringHealth: boolean;     // Measure open strings as they ring and warn when worn
+  toneWaveform: ToneWaveform; // Sound of the reference tones
+  showToneButtons: boolean;  // Play-string buttons on the tuner screen
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
   referencePitch: 440,
+  temperament: 'equal',
+  temperamentTonic: 'C',
   theme: 'dark',
-  noiseThreshold: 0.01,
+  noiseThreshold: AUTO_NOISE_THRESHOLD,
   showFrequency: true,
+  displayHold: 0,
   keepScreenAwake: true,
   tunerStyle: 'boss',
-  bufferSize: 2048
+  bufferSize: 2048,
+  hopSize: 1024,
+  pitchAlgorithm: 'autocorrelation',
+  smoothing: 'median',
+  centsPrecision: 1,
+  averageWindow: 0,
+  tunerMode: 'chromatic',
+  drumLugCount: 6,
+  instrument: 'guitar',
+  tuning: 'standard',
+  dcBlock: true,
+  bandPass: true,
+  humNotch: 'auto',
+  stringHealth: true,
+  toneWaveform: 'pluck',
+  showToneButtons: false
 };
 
 const SETTINGS_KEY = 'guitar_tuner_settings';
+// String health history, one entry per instrument
+const STRING_HEALTH_KEY_PREFIX = 'guitar_tuner_string_health_';
+// Readings kept per string; the first is always kept as the baseline
+const MAX_HEALTH_RECORDS = 20;
+
+// User-made tunings, shared by all instruments
+const CUSTOM_TUNINGS_KEY = 'guitar_tuner_custom_tunings';
+
+// Readings per open string, keyed by note and octave such as "E2"
+export type StringHealthHistory = Record<string, StringHealthRecord[]>;
 
 @Injectable({
   providedIn: 'root'
@@ -32,7 +86,17 @@ const SETTINGS_KEY = 'guitar_tuner_settings';
 export class SettingsService {
   private _settings = new BehaviorSubject<AppSettings>(this.loadSettings());
   
+  private _stringHealth = new BehaviorSubject<StringHealthHistory>(this.loadStringHealth(this._settings.value.instrument));
+  private _customTunings = new BehaviorSubject<Tuning[]>(this.loadCustomTunings());
+  
   settings$: Observable<AppSettings> = this._settings.asObservable();
+  // Health history of the current instrument's strings
+  stringHealth$: Observable<StringHealthHistory> = this._stringHealth.asObservable();
+  customTunings$: Observable<Tuning[]> = this._customTunings.asObservable();
+  // The selected tuning, following edits to it when it is a custom one
+  tuning$: Observable<Tuning> = combineLatest([this.settings$, this.customTunings$]).pipe(
+    map(([settings, customTunings]) => getTuning(settings.instrument, settings.tuning, customTunings))
+  );
 
   get settings(): AppSettings {
     return { ...this._settings.value };
@@ -60,19 +124,115 @@ export class SettingsService {
 
   updateSettings(partial: Partial<AppSettings>): void {
     const oldSettings = this._settings.value;
-    this._settings.next({ ...oldSettings, ...partial });
+    const settings = { ...oldSettings, ...partial };
+    // Keep the tuning across instruments that share it, otherwise use the new one's default
+    if (partial.instrument && !partial.tuning) {
+      settings.tuning = this.getTuning(partial.instrument, oldSettings.tuning).id;
+    }
+    this._settings.next(settings);
     this.saveSettings();
     
     // Handle keepScreenAwake changes
     if ('keepScreenAwake' in partial) {
       this.applyScreenAwakeSetting(partial.keepScreenAwake!);
     }
+
+    if (partial.instrument && partial.instrument !== oldSettings.instrument) {
+      this._stringHealth.next(this.loadStringHealth(partial.instrument));
+    }
   }
 
   resetSettings(): void {
+    const oldInstrument = this._settings.value.instrument;
     this._settings.next({ ...DEFAULT_SETTINGS });
     this.saveSettings();
     this.applyScreenAwakeSetting(DEFAULT_SETTINGS.keepScreenAwake);
+    if (DEFAULT_SETTINGS.instrument !== oldInstrument) {
+      this._stringHealth.next(this.loadStringHealth(DEFAULT_SETTINGS.instrument));
+    }
+  }
+
+  // The instrument's or a custom tuning by id, or the instrument's default
+  getTuning(instrument: InstrumentType, id: string): Tuning {
+    return getTuning(instrument, id, this._customTunings.value);
+  }
+
+  // Add or replace a custom tuning
+  saveCustomTuning(tuning: Tuning): void {
+    const tunings = this._customTunings.value.filter(existing => existing.id !== tuning.id);
+    this._customTunings.next([...tunings, tuning]);
+    this.storeCustomTunings();
+  }
+
+  // Remove a custom tuning, falling back to the instrument's default if it was selected
+  deleteCustomTuning(id: string): void {
+    this._customTunings.next(this._customTunings.value.filter(tuning => tuning.id !== id));
+    this.storeCustomTunings();
+    if (this._settings.value.tuning === id) {
+      this.updateSettings({ tuning: getTuning(this._settings.value.instrument, id).id });
+    }
+  }
+
+  private loadCustomTunings(): Tuning[] {
+    try {
+      const saved = ApplicationSettings.getString(CUSTOM_TUNINGS_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Error loading custom tunings:', error);
+    }
+    return [];
+  }
+
+  private storeCustomTunings(): void {
+    try {
+      ApplicationSettings.setString(CUSTOM_TUNINGS_KEY, JSON.stringify(this._customTunings.value));
+    } catch (error) {
+      console.error('Error saving custom tunings:', error);
+    }
+  }
+
+  // Add a reading for an open string of the current instrument and return its history
+  recordStringHealth(stringName: string, record: StringHealthRecord): StringHealthRecord[] {
+    const history = this._stringHealth.value;
+    // Keep unusable readings out, so they never become the kept baseline
+    if (!isUsableReading(record)) return history[stringName] ?? [];
+
+    const records = [...(history[stringName] ?? []), record];
+    if (records.length > MAX_HEALTH_RECORDS) {
+      records.splice(1, records.length - MAX_HEALTH_RECORDS);
+    }
+
+    this._stringHealth.next({ ...history, [stringName]: records });
+    this.saveStringHealth();
+    return records;
+  }
+
+  // Forget the current instrument's readings, e.g. after fitting new strings
+  clearStringHealth(): void {
+    this._stringHealth.next({});
+    this.saveStringHealth();
+  }
+
+  private loadStringHealth(instrument: InstrumentType): StringHealthHistory {
+    try {
+      const saved = ApplicationSettings.getString(STRING_HEALTH_KEY_PREFIX + instrument);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Error loading string health:', error);
+    }
+    return {};
+  }
+
+  private saveStringHealth(): void {
+    try {
+      ApplicationSettings.setString(STRING_HEALTH_KEY_PREFIX + this._settings.value.instrument, JSON.stringify(this._stringHealth.value));
+    } catch (error) {
+      console.error('Error saving string health:', error);
+    }
   }
 
   applyScreenAwakeSetting(keepAwakeEnabled: boolean): void {
@@ -99,6 +259,27 @@ export class SettingsService {
     { label: '442', value: 442, default: false }
   ];
 
+  // Temperament options
+  readonly TEMPERAMENTS: { value: Temperament; name: string; description: string }[] = [
+    { value: 'equal', ...TEMPERAMENT_INFO.equal },
+    { value: 'just', ...TEMPERAMENT_INFO.just },
+    { value: 'pythagorean', ...TEMPERAMENT_INFO.pythagorean },
+    { value: 'meantone', ...TEMPERAMENT_INFO.meantone },
+    { value: 'werckmeister3', ...TEMPERAMENT_INFO.werckmeister3 },
+    { value: 'vallotti', ...TEMPERAMENT_INFO.vallotti }
+  ];
+
+  // Keys a temperament can be built on
+  readonly TONICS = NOTE_NAMES.map(note => ({ label: note, value: note }));
+
+  // Display hold options (seconds)
+  readonly DISPLAY_HOLD_OPTIONS = [
+    { label: 'Off', value: 0 },
+    { label: '3 s', value: 3 },
+    { label: '5 s', value: 5 },
+    { label: '10 s', value: 10 }
+  ];
+
   // Tuner style options
   readonly TUNER_STYLES: { value: TunerStyle; name: string; description: string }[] = [
     { value: 'boss', ...TUNER_STYLE_INFO.boss },
@@ -109,10 +290,115 @@ export class SettingsService {
     { value: 'modern', ...TUNER_STYLE_INFO.modern }
   ];
 
-  // Buffer size presets (responsiveness)
+  // Instrument options
+  readonly INSTRUMENTS: { value: InstrumentType; name: string; description: string }[] = [
+    { value: 'guitar', ...INSTRUMENT_INFO.guitar },
+    { value: 'guitar7', ...INSTRUMENT_INFO.guitar7 },
+    { value: 'guitar8', ...INSTRUMENT_INFO.guitar8 },
+    { value: 'bass', ...INSTRUMENT_INFO.bass },
+    { value: 'bass5', ...INSTRUMENT_INFO.bass5 },
+    { value: 'bass6', ...INSTRUMENT_INFO.bass6 },
+    { value: 'ukulele', ...INSTRUMENT_INFO.ukulele },
+    { value: 'mandolin', ...INSTRUMENT_INFO.mandolin },
+    { value: 'banjo', ...INSTRUMENT_INFO.banjo },
+    { value: 'violin', ...INSTRUMENT_INFO.violin },
+    { value: 'viola', ...INSTRUMENT_INFO.viola },
+    { value: 'cello', ...INSTRUMENT_INFO.cello },
+    { value: 'doubleBass', ...INSTRUMENT_INFO.doubleBass },
+    { value: 'piano', ...INSTRUMENT_INFO.piano }
+  ];
+
+  // Tuning options for an instrument followed by the custom ones, described by their notes
+  getTunings(instrument: InstrumentType): { value: string; name: string; description: string }[] {
+    return [...(TUNINGS[instrument] ?? []), ...this._customTunings.value]
+      .map(tuning => ({ value: tuning.id, name: tuning.name, description: describeTuning(tuning) }));
+  }
+
+  // String counts offered by the custom tuning editor
+  readonly STRING_COUNTS = [
+    { label: '4', value: 4 },
+    { label: '5', value: 5 },
+    { label: '6', value: 6 },
+    { label: '7', value: 7 },
+    { label: '8', value: 8 }
+  ];
+
+  // Tuning mode options
+  readonly TUNER_MODES: { value: TunerMode; name: string; description: string }[] = [
+    { value: 'chromatic', name: 'Chromatic', description: 'One note at a time' },
+    { value: 'string', name: 'String', description: 'Matches the nearest string of the tuning' },
+    { value: 'polyphonic', name: 'Polyphonic', description: 'Strum all strings at once' },
+    { value: 'drum', name: 'Drum', description: 'Tap at each lug to even out the head' },
+    { value: 'piano', name: 'Piano', description: 'Stretched to the measured inharmonicity' }
+  ];
+
+  // Reference tone sounds
+  readonly TONE_WAVEFORMS: { value: ToneWaveform; name: string; description: string }[] = [
+    { value: 'pluck', ...TONE_WAVEFORM_INFO.pluck },
+    { value: 'sine', ...TONE_WAVEFORM_INFO.sine },
+    { value: 'drone', ...TONE_WAVEFORM_INFO.drone }
+  ];
+
+  // Lugs around a drum head
+  readonly DRUM_LUG_COUNTS = [
+    { label: '4', value: 4 },
+    { label: '5', value: 5 },
+    { label: '6', value: 6 },
+    { label: '8', value: 8 },
+    { label: '10', value: 10 }
+  ];
+
+  // Buffer size presets (analysis window)
   readonly BUFFER_SIZE_PRESETS = [
-    { label: 'Fast', value: 1024, description: '~43 fps, lower accuracy' },
-    { label: 'Balanced', value: 2048, description: '~22 fps, recommended' },
-    { label: 'Accurate', value: 4096, description: '~11 fps, best for low notes' }
+    { label: 'Fast', value: 1024, description: '23 ms window, lower accuracy' },
+    { label: 'Balanced', value: 2048, description: '46 ms window, recommended' },
+    { label: 'Accurate', value: 4096, description: '93 ms window, best for low notes' },
+    { label: 'Auto', value: AUTO_BUFFER_SIZE, description: 'Follows the note: long for low notes, short for high' }
+  ];
+
+  // Hop size presets (update rate), capped at the window size
+  readonly HOP_SIZE_PRESETS = [
+    { label: 'Smooth', value: 512, description: '~86 updates/s, most CPU' },
+    { label: 'Standard', value: 1024, description: '~43 updates/s, recommended' },
+    { label: 'Relaxed', value: 2048, description: '~22 updates/s, least CPU' }
+  ];
+
+  // Pitch detection algorithm options
+  readonly PITCH_ALGORITHMS: { value: PitchAlgorithm; name: string; description: string }[] = [
+    { value: 'autocorrelation', ...PITCH_ALGORITHM_INFO.autocorrelation },
+    { value: 'yin', ...PITCH_ALGORITHM_INFO.yin },
+    { value: 'mpm', ...PITCH_ALGORITHM_INFO.mpm },
+    { value: 'hps', ...PITCH_ALGORITHM_INFO.hps }
+  ];
+
+  // Pitch smoothing options
+  readonly SMOOTHING_MODES: { value: SmoothingMode; name: string; description: string }[] = [
+    { value: 'off', ...SMOOTHING_MODE_INFO.off },
+    { value: 'median', ...SMOOTHING_MODE_INFO.median },
+    { value: 'exponential', ...SMOOTHING_MODE_INFO.exponential },
+    { value: 'kalman', ...SMOOTHING_MODE_INFO.kalman }
+  ];
+
+  // Cents readout precision options
+  readonly CENTS_PRECISIONS: { value: CentsPrecision; name: string; description: string }[] = [
+    { value: 1, ...CENTS_PRECISION_INFO[1] },
+    { value: 0.5, ...CENTS_PRECISION_INFO[0.5] },
+    { value: 0.1, ...CENTS_PRECISION_INFO[0.1] }
+  ];
+
+  // Precision tune averaging windows (seconds)
+  readonly AVERAGE_WINDOW_OPTIONS = [
+    { label: 'Off', value: 0 },
+    { label: '1 s', value: 1 },
+    { label: '2 s', value: 2 },
+    { label: '3 s', value: 3 }
+  ];
+
+  // Mains hum notch options
+  readonly HUM_NOTCH_MODES: { value: HumNotchMode; name: string; description: string }[] = [
+    { value: 'auto', name: 'Auto', description: 'Notch 50 or 60 Hz when hum is heard' },
+    { value: 50, name: '50 Hz', description: 'Europe, Asia, Africa, Australia' },
+    { value: 60, name: '60 Hz', description: 'Americas, parts of Asia' },
+    { value: 'off', name: 'Off', description: 'No notch filter' }
   ];
 }
@@ -0,0 +1,88 @@
+import { NOTE_NAMES } from './audio-recorder';
+
+/**
+ * Piano stretch curve
+ * A stiff string's partials run sharp, so octaves tuned beatless come out
+ * wider than 2:1. Starting from an A3-A4 temperament octave, each octave
+ * outwards is tuned beatless by the inharmonicity of its two notes: 2:1
+ * (the upper note's first partial on the lower note's second) in the treble
+ * and the wider 4:2 in the bass, where the ear follows the higher partials.
+ * This gives the familiar Railsback curve: flat in the bass, sharp in the
+ * treble. Inharmonicity is interpolated between measured keys on a log
+ * scale; unmeasured ends keep the nearest measurement and a piano with no
+ * measurements uses typical values.
+ */
+
+export interface InharmonicitySample {
+  key: number;          // Piano key, 1 = A0, 49 = A4, 88 = C8
+  coefficient: number;  // Inharmonicity coefficient B
+  measurements: number; // Readings averaged into the coefficient
+}
+
+export const PIANO_KEYS = 88;
+const A4_KEY = 49;
+const TEMPERAMENT_KEY = A4_KEY - 12; // A3, bottom of the temperament octave
+
+// Typical values for a mid-sized piano: wound bass strings, lowest around the
+// break, rising steeply towards the top
+const TYPICAL_INHARMONICITY: InharmonicitySample[] = [
+  { key: 1, coefficient: 0.0004, measurements: 0 },
+  { key: 28, coefficient: 0.00015, measurements: 0 },
+  { key: 49, coefficient: 0.0004, measurements: 0 },
+  { key: 88, coefficient: 0.02, measurements: 0 }
+];
+
+// Piano key of a note, which may fall outside 1-88 for notes off the keyboard
+export function pianoKey(note: string, octave: number): number {
+  return octave * 12 + NOTE_NAMES.indexOf(note) - 8;
+}
+
+// Inharmonicity of a key, interpolated on a log scale between the samples
+export function inharmonicityAt(samples: InharmonicitySample[], key: number): number {
+  const points = (samples.length ? samples : TYPICAL_INHARMONICITY).slice().sort((a, b) => a.key - b.key);
+  if (key <= points[0].key) return points[0].coefficient;
+  if (key >= points[points.length - 1].key) return points[points.length - 1].coefficient;
+
+  const upper = points.findIndex(point => point.key >= key);
+  const a = points[upper - 1];
+  const b = points[upper];
+  const t = (key - a.key) / (b.key - a.key);
+  return Math.exp(Math.log(a.coefficient) + t * (Math.log(b.coefficient) - Math.log(a.coefficient)));
+}
+
+// Target offset from equal temperament for every key, in cents; index 0 is key 1
+export function buildStretchCurve(samples: InharmonicitySample[]): number[] {
+  const coefficients = Array.from({ length: PIANO_KEYS }, (_, i) => inharmonicityAt(samples, i + 1));
+  // Cents by which a beatless octave above the key exceeds 2:1, with the
+  // lower note's partial p on the upper note's partial p / 2
+  const octaveStretch = (key: number, p: number) => {
+    const lower = coefficients[key - 1];
+    const upper = coefficients[key + 11];
+    const q = p / 2;
+    return 600 * Math.log2(((1 + p * p * lower) * (1 + upper)) / ((1 + q * q * upper) * (1 + lower)));
+  };
+
+  const curve = new Array<number>(PIANO_KEYS).fill(0);
+
+  // Temperament octave: A3 a stretched octave below A4, the keys in between spread evenly
+  const temperamentStretch = octaveStretch(TEMPERAMENT_KEY, 2);
+  for (let key = TEMPERAMENT_KEY; key <= A4_KEY; key++) {
+    curve[key - 1] = -temperamentStretch * (A4_KEY - key) / 12;
+  }
+
+  // Octaves tuned outwards from the temperament octave
+  for (let key = A4_KEY + 1; key <= PIANO_KEYS; key++) {
+    curve[key - 1] = curve[key - 13] + octaveStretch(key - 12, 2);
+  }
+  for (let key = TEMPERAMENT_KEY - 1; key >= 1; key--) {
+    curve[key - 1] = curve[key + 11] - octaveStretch(key, 4);
+  }
+
+  return curve;
+}
+
+// Stretch target of a note in cents, 0 off the keyboard
+export function stretchCents(curve: number[], note: string, octave: number): number {
+  const key = pianoKey(note, octave);
+  return key >= 1 && key <= curve.length ? curve[key - 1] : 0;
+}
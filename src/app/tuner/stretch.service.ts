@@ -0,0 +1,104 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, map } from 'rxjs';
+import { ApplicationSettings } from '@nativescript/core';
+import { InstrumentType } from './instruments';
+import { InharmonicitySample, PIANO_KEYS, buildStretchCurve } from './stretch-curve';
+
+// Each instrument keeps its own measurements under this prefix
+const STRETCH_KEY_PREFIX = 'guitar_tuner_stretch_';
+// Readings averaged per key; later ones replace the oldest influence
+const MAX_MEASUREMENTS = 8;
+// Readings arrive several times a second while measuring, so saving waits for a pause
+const SAVE_DELAY_MS = 2000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class StretchService implements OnDestroy {
+  private instrument: InstrumentType | null = null;
+  private _samples = new BehaviorSubject<InharmonicitySample[]>([]);
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Measured inharmonicity per key for the current instrument
+  samples$: Observable<InharmonicitySample[]> = this._samples.asObservable();
+  // Target offset from equal temperament per piano key, in cents
+  curve$: Observable<number[]> = this.samples$.pipe(map(buildStretchCurve));
+
+  ngOnDestroy(): void {
+    this.flushSave();
+  }
+
+  // Switch to another instrument's measurements
+  setInstrument(instrument: InstrumentType): void {
+    if (instrument === this.instrument) return;
+    this.flushSave();
+    this.instrument = instrument;
+    this._samples.next(this.loadSamples(instrument));
+  }
+
+  // Average a new reading into the key, on a log scale like the curve
+  record(key: number, coefficient: number): void {
+    if (key < 1 || key > PIANO_KEYS || coefficient <= 0) return;
+
+    const samples = this._samples.value.filter(sample => sample.key !== key);
+    const previous = this._samples.value.find(sample => sample.key === key);
+    const count = previous ? Math.min(previous.measurements, MAX_MEASUREMENTS - 1) : 0;
+    const logCoefficient = previous
+      ? (Math.log(previous.coefficient) * count + Math.log(coefficient)) / (count + 1)
+      : Math.log(coefficient);
+
+    samples.push({ key, coefficient: Math.exp(logCoefficient), measurements: count + 1 });
+    samples.sort((a, b) => a.key - b.key);
+    this._samples.next(samples);
+    this.scheduleSave();
+  }
+
+  clear(): void {
+    this._samples.next([]);
+    this.cancelSave();
+    this.saveSamples();
+  }
+
+  private loadSamples(instrument: InstrumentType): InharmonicitySample[] {
+    try {
+      const saved = ApplicationSettings.getString(STRETCH_KEY_PREFIX + instrument);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Error loading stretch curve:', error);
+    }
+    return [];
+  }
+
+  private scheduleSave(): void {
+    this.cancelSave();
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveSamples();
+    }, SAVE_DELAY_MS);
+  }
+
+  private cancelSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  // Write a pending save now, before the samples it covers are replaced
+  private flushSave(): void {
+    if (!this.saveTimer) return;
+    this.cancelSave();
+    this.saveSamples();
+  }
+
+  private saveSamples(): void {
+    if (!this.instrument) return;
+    try {
+      ApplicationSettings.setString(STRETCH_KEY_PREFIX + this.instrument, JSON.stringify(this._samples.value));
+    } catch (error) {
+      console.error('Error saving stretch curve:', error);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * String health
+ * Worn strings lose sustain and their partials drift further sharp as the
+ * winding loosens and the core fatigues. Each time an open string is left to
+ * ring, its decay rate over a fixed stretch after the attack and its
+ * inharmonicity are measured; the latest readings are compared with the
+ * first ones taken on that string.
+ */
+
+export interface StringHealthRecord {
+  timestamp: number;   // Date.now() of the measurement
+  coefficient: number; // Inharmonicity coefficient B
+  decayRate: number;   // Level lost per second while ringing, dB/s
+}
+
+export type StringHealthStatus = 'baseline' | 'good' | 'worn' | 'replace';
+
+export interface StringHealthAssessment {
+  status: StringHealthStatus;
+  decayChange: number;        // Relative change in decay rate since the first reading, 0.3 = 30% faster
+  inharmonicityChange: number;
+  latest: StringHealthRecord;
+}
+
+const ATTACK_SECONDS = 0.1;   // The pick transient is left out of the decay
+const MEASURE_SECONDS = 2;    // Span of the ring used for every reading, so they compare
+const RECENT_READINGS = 3;    // Latest readings averaged against the first
+const WORN_DECAY = 0.25;
+const REPLACE_DECAY = 0.5;
+const WORN_INHARMONICITY = 0.15;
+const REPLACE_INHARMONICITY = 0.3;
+
+// Decay rate of one ringing note, from a line fitted to its level in dB
+export class SustainTracker {
+  private elapsed = 0;
+  private times: number[] = [];
+  private levels: number[] = [];
+  private tracking = false;
+
+  get isTracking(): boolean {
+    return this.tracking;
+  }
+
+  // Seconds since the attack
+  get seconds(): number {
+    return this.elapsed;
+  }
+
+  start(): void {
+    this.elapsed = 0;
+    this.times = [];
+    this.levels = [];
+    this.tracking = true;
+  }
+
+  cancel(): void {
+    this.tracking = false;
+  }
+
+  // Add a frame's RMS level; returns the decay rate once the span is covered
+  addLevel(level: number, frameSeconds: number): number | null {
+    if (!this.tracking) return null;
+    this.elapsed += frameSeconds;
+    if (this.elapsed < ATTACK_SECONDS || level <= 0) return null;
+
+    this.times.push(this.elapsed);
+    this.levels.push(20 * Math.log10(level));
+    if (this.elapsed < ATTACK_SECONDS + MEASURE_SECONDS) return null;
+
+    this.tracking = false;
+    const slope = fitSlope(this.times, this.levels);
+    return slope < 0 ? -slope : null;
+  }
+}
+
+// A reading can be compared only when both measures are positive; the
+// inharmonicity fit clamps B at 0 when no stretch was found
+export function isUsableReading(record: StringHealthRecord): boolean {
+  return record.coefficient > 0 && record.decayRate > 0;
+}
+
+// Compare the latest readings of a string with its first usable one
+export function assessStringHealth(history: StringHealthRecord[]): StringHealthAssessment | null {
+  const records = history.filter(isUsableReading);
+  if (records.length === 0) return null;
+
+  const first = records[0];
+  const latest = records[records.length - 1];
+  if (records.length === 1) {
+    return { status: 'baseline', decayChange: 0, inharmonicityChange: 0, latest };
+  }
+
+  const recent = records.slice(1).slice(-RECENT_READINGS);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const decayChange = mean(recent.map(record => record.decayRate)) / first.decayRate - 1;
+  const inharmonicityChange = mean(recent.map(record => record.coefficient)) / first.coefficient - 1;
+
+  let status: StringHealthStatus = 'good';
+  if (decayChange >= REPLACE_DECAY || inharmonicityChange >= REPLACE_INHARMONICITY) {
+    status = 'replace';
+  } else if (decayChange >= WORN_DECAY || inharmonicityChange >= WORN_INHARMONICITY) {
+    status = 'worn';
+  }
+  return { status, decayChange, inharmonicityChange, latest };
+}
+
+// One-line summary such as "Decays 40% faster, partials 12% sharper than when first measured"
+export function describeStringHealth(assessment: StringHealthAssessment): string {
+  if (assessment.status === 'baseline') return 'First reading taken, later ones are compared with it';
+
+  const percent = (change: number) => `${Math.abs(Math.round(change * 100))}%`;
+  const sustain = assessment.decayChange >= 0
+    ? `Decays ${percent(assessment.decayChange)} faster`
+    : `Decays ${percent(assessment.decayChange)} slower`;
+  const partials = assessment.inharmonicityChange >= 0
+    ? `partials ${percent(assessment.inharmonicityChange)} sharper`
+    : `partials ${percent(assessment.inharmonicityChange)} truer`;
+  return `${sustain}, ${partials} than when first measured`;
+}
+
+// Least-squares slope of y against x
+function fitSlope(x: number[], y: number[]): number {
+  const count = x.length;
+  const meanX = x.reduce((sum, value) => sum + value, 0) / count;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / count;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < count; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    variance += (x[i] - meanX) ** 2;
+  }
+  return variance > 0 ? covariance / variance : 0;
+}
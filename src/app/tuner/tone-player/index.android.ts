@@ -0,0 +1,77 @@
+import { Tone } from './synthesis';
+import { TonePlayerCommon } from './player.common';
+
+export * from './player.common';
+
+export class TonePlayer extends TonePlayerCommon {
+  private audioTrack: android.media.AudioTrack | null = null;
+
+  protected play(tone: Tone): void {
+    try {
+      const frames = tone.samples.length;
+      const audioTrack = new android.media.AudioTrack(
+        android.media.AudioManager.STREAM_MUSIC,
+        this.sampleRate,
+        android.media.AudioFormat.CHANNEL_OUT_MONO,
+        android.media.AudioFormat.ENCODING_PCM_16BIT,
+        frames * 2, // bytes: the whole tone, written once
+        android.media.AudioTrack.MODE_STATIC
+      );
+      if (audioTrack.getState() !== android.media.AudioTrack.STATE_NO_STATIC_DATA) {
+        console.error('AudioTrack failed to initialize');
+        audioTrack.release();
+        return;
+      }
+
+      // Fill a direct buffer shared with JS, so samples never cross the bridge one by one
+      const byteBuffer = java.nio.ByteBuffer.allocateDirect(frames * 2);
+      byteBuffer.order(java.nio.ByteOrder.nativeOrder());
+      const pcmData = new Int16Array(ArrayBuffer.from(byteBuffer));
+      for (let i = 0; i < frames; i++) {
+        pcmData[i] = Math.max(-32768, Math.min(32767, Math.round(tone.samples[i] * 32767)));
+      }
+      audioTrack.write(byteBuffer, frames * 2, android.media.AudioTrack.WRITE_BLOCKING);
+
+      if (tone.loop) {
+        audioTrack.setLoopPoints(0, frames, -1);
+      } else {
+        audioTrack.setNotificationMarkerPosition(frames);
+        audioTrack.setPlaybackPositionUpdateListener(new android.media.AudioTrack.OnPlaybackPositionUpdateListener({
+          onMarkerReached: (_track: android.media.AudioTrack) => {
+            this.finished();
+          },
+          onPeriodicNotification: (_track: android.media.AudioTrack) => {
+            // Not used
+          }
+        }));
+      }
+
+      audioTrack.play();
+      this.audioTrack = audioTrack;
+      this._isPlaying = true;
+    } catch (error) {
+      console.error('Error playing Android tone:', error);
+    }
+  }
+
+  stop(): void {
+    if (!this._isPlaying) return;
+
+    if (this.audioTrack) {
+      try {
+        this.audioTrack.stop();
+        this.audioTrack.release();
+      } catch (error) {
+        console.error('Error stopping Android tone:', error);
+      }
+      this.audioTrack = null;
+    }
+
+    this._isPlaying = false;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.finishedCallback = null;
+  }
+}
@@ -0,0 +1,11 @@
+import { TonePlayerCommon } from './player.common';
+import { Tone } from './synthesis';
+
+export { TonePlayerCommon, PlaybackFinishedCallback, PLAYBACK_SAMPLE_RATE } from './player.common';
+export { ToneWaveform, Tone, TONE_WAVEFORM_INFO, synthesizeTone, sine, pluck, drone, loopLength } from './synthesis';
+
+export declare class TonePlayer extends TonePlayerCommon {
+  protected play(tone: Tone): void;
+  stop(): void;
+  dispose(): void;
+}
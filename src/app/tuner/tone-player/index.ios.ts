@@ -0,0 +1,74 @@
+import { Tone } from './synthesis';
+import { TonePlayerCommon } from './player.common';
+
+export * from './player.common';
+
+export class TonePlayer extends TonePlayerCommon {
+  private audioEngine: AVAudioEngine | null = null;
+  private playerNode: AVAudioPlayerNode | null = null;
+
+  protected play(tone: Tone): void {
+    try {
+      // Same session as the recorder, so a tone can sound while the tuner listens
+      const audioSession = AVAudioSession.sharedInstance();
+      audioSession.setCategoryModeOptionsError(
+        AVAudioSessionCategoryPlayAndRecord,
+        AVAudioSessionModeMeasurement,
+        AVAudioSessionCategoryOptions.DefaultToSpeaker
+      );
+      audioSession.setActiveError(true);
+
+      const format = AVAudioFormat.alloc().initStandardFormatWithSampleRateChannels(this.sampleRate, 1);
+      const frames = tone.samples.length;
+      const buffer = AVAudioPCMBuffer.alloc().initWithPCMFormatFrameCapacity(format, frames);
+      buffer.frameLength = frames;
+      const channelData = (buffer.floatChannelData as interop.Reference<any>).value;
+      const data = channelData[0];
+      for (let i = 0; i < frames; i++) {
+        data[i] = tone.samples[i];
+      }
+
+      const playerNode = AVAudioPlayerNode.new();
+      this.audioEngine = AVAudioEngine.new();
+      this.playerNode = playerNode;
+      this.audioEngine.attachNode(playerNode);
+      this.audioEngine.connectToFormat(playerNode, this.audioEngine.mainMixerNode, format);
+
+      const options = tone.loop ? AVAudioPlayerNodeBufferOptions.Loops : AVAudioPlayerNodeBufferOptions.Interrupts;
+      playerNode.scheduleBufferAtTimeOptionsCompletionHandler(buffer, null, options, () => {
+        // Also called when stopped; only this one-shot tone ending by itself counts
+        if (!tone.loop && this.playerNode === playerNode) {
+          this.finished();
+        }
+      });
+
+      this.audioEngine.prepare();
+      this.audioEngine.startAndReturnError();
+      this.playerNode.play();
+      this._isPlaying = true;
+    } catch (error) {
+      console.error('Error playing iOS tone:', error);
+    }
+  }
+
+  stop(): void {
+    if (!this._isPlaying) return;
+    this._isPlaying = false;
+
+    if (this.audioEngine) {
+      try {
+        this.playerNode?.stop();
+        this.audioEngine.stop();
+      } catch (error) {
+        console.error('Error stopping iOS tone:', error);
+      }
+      this.playerNode = null;
+      this.audioEngine = null;
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+    this.finishedCallback = null;
+  }
+}
@@ -0,0 +1,40 @@
+import { Tone, ToneWaveform, synthesizeTone } from './synthesis';
+
+export * from './synthesis';
+
+// Playback rate every device supports
+export const PLAYBACK_SAMPLE_RATE = 44100;
+
+// Called when a one-shot tone has played to its end
+export type PlaybackFinishedCallback = () => void;
+
+export abstract class TonePlayerCommon {
+  protected _isPlaying = false;
+  protected finishedCallback: PlaybackFinishedCallback | null = null;
+  readonly sampleRate = PLAYBACK_SAMPLE_RATE;
+
+  get isPlaying(): boolean {
+    return this._isPlaying;
+  }
+
+  onFinished(callback: PlaybackFinishedCallback | null): void {
+    this.finishedCallback = callback;
+  }
+
+  // Synthesize and play a tone, replacing any tone still sounding
+  playFrequency(frequency: number, waveform: ToneWaveform): void {
+    this.stop();
+    this.play(synthesizeTone(waveform, frequency, this.sampleRate));
+  }
+
+  protected abstract play(tone: Tone): void;
+  abstract stop(): void;
+  abstract dispose(): void;
+
+  // Platforms call this when a one-shot tone reaches its end
+  protected finished(): void {
+    if (!this._isPlaying) return;
+    this.stop();
+    this.finishedCallback?.();
+  }
+}
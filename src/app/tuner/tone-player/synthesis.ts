@@ -0,0 +1,157 @@
+/**
+ * Reference tone synthesis
+ * Plain sample generation with no platform code, so the output can be fed
+ * straight back through the pitch detectors.
+ * - sine: a pure tone with short fades, the easiest to match by ear
+ * - pluck: Karplus-Strong plucked string, a noise burst circulating in a
+ *   tuned delay loop whose averaging filter dulls it like a real string
+ * - drone: a steady harmonic-rich tone that loops seamlessly until stopped
+ */
+
+export type ToneWaveform = 'sine' | 'pluck' | 'drone';
+
+export const TONE_WAVEFORM_INFO: Record<ToneWaveform, { name: string; description: string }> = {
+  sine: { name: 'Sine', description: 'Pure tone for two seconds' },
+  pluck: { name: 'Plucked String', description: 'Decaying string, like a guitar note' },
+  drone: { name: 'Drone', description: 'Sustained until tapped again, for tuning against' }
+};
+
+export interface Tone {
+  samples: Float32Array; // Mono, -1 to 1
+  loop: boolean;         // Play repeatedly until stopped
+}
+
+const AMPLITUDE = 0.5;
+const FADE_SECONDS = 0.01;
+const SINE_SECONDS = 2;
+const PLUCK_SECONDS = 3;
+const PLUCK_LOSS = 0.996;     // Extra loss per loop pass on top of the averaging filter
+const DRONE_SECONDS = 2;      // Shortest loop; lengthened to fit a whole number of cycles
+const DRONE_HARMONICS = 6;    // Partials at 1/n amplitude
+const LOOP_TOLERANCE = 1e-3;  // Cycles a loop may fall short of a whole number
+
+export function synthesizeTone(waveform: ToneWaveform, frequency: number, sampleRate: number, seed: number = 1): Tone {
+  switch (waveform) {
+    case 'pluck':
+      return { samples: pluck(frequency, sampleRate, PLUCK_SECONDS, seed), loop: false };
+    case 'drone':
+      return { samples: drone(frequency, sampleRate), loop: true };
+    default:
+      return { samples: sine(frequency, sampleRate, SINE_SECONDS), loop: false };
+  }
+}
+
+export function sine(frequency: number, sampleRate: number, seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const step = (2 * Math.PI * frequency) / sampleRate;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = AMPLITUDE * Math.sin(step * i);
+  }
+  applyFades(samples, sampleRate);
+  return samples;
+}
+
+// Karplus-Strong with a first-order allpass in the loop, so the period is
+// tuned to a fraction of a sample rather than rounded to a whole one
+export function pluck(frequency: number, sampleRate: number, seconds: number, seed: number = 1): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+
+  // The two-point average delays the loop by half a sample; the allpass makes
+  // up the rest, kept between 0.1 and 1.1 samples where its delay is flattest
+  const loopDelay = sampleRate / frequency - 0.5;
+  const length = Math.max(2, Math.floor(loopDelay - 0.1));
+  const fraction = loopDelay - length;
+  const coefficient = (1 - fraction) / (1 + fraction);
+
+  const random = mulberry32(seed);
+  const line = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    line[i] = random() * 2 - 1;
+  }
+  // Remove the burst's offset, which the loop would otherwise hold as DC
+  const mean = line.reduce((sum, value) => sum + value, 0) / length;
+  for (let i = 0; i < length; i++) {
+    line[i] -= mean;
+  }
+
+  let index = 0;
+  let previous = 0;
+  let allpassIn = 0;
+  let allpassOut = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const current = line[index];
+    samples[i] = AMPLITUDE * current;
+
+    const averaged = PLUCK_LOSS * 0.5 * (current + previous);
+    previous = current;
+    allpassOut = coefficient * averaged + allpassIn - coefficient * allpassOut;
+    allpassIn = averaged;
+
+    line[index] = allpassOut;
+    index = (index + 1) % length;
+  }
+
+  applyFades(samples, sampleRate);
+  return samples;
+}
+
+// Harmonic-rich tone whose length holds a whole number of cycles, so looping
+// it never clicks
+export function drone(frequency: number, sampleRate: number): Float32Array {
+  const samples = new Float32Array(loopLength(frequency, sampleRate, Math.round(DRONE_SECONDS * sampleRate)));
+  const cycles = Math.round((samples.length * frequency) / sampleRate);
+  // Exactly the loop's cycles, which differs from the frequency by a tiny fraction of a cent
+  const step = (2 * Math.PI * cycles) / samples.length;
+
+  let norm = 0;
+  for (let n = 1; n <= DRONE_HARMONICS; n++) {
+    norm += 1 / n;
+  }
+  for (let i = 0; i < samples.length; i++) {
+    let value = 0;
+    for (let n = 1; n <= DRONE_HARMONICS; n++) {
+      value += Math.sin(step * n * i) / n;
+    }
+    samples[i] = (AMPLITUDE * value) / norm;
+  }
+  return samples;
+}
+
+// Shortest length from minSamples up that holds a whole number of cycles to
+// within the tolerance, or the closest one found in the next minSamples
+export function loopLength(frequency: number, sampleRate: number, minSamples: number): number {
+  let best = minSamples;
+  let bestError = Infinity;
+  for (let length = minSamples; length < minSamples * 2; length++) {
+    const cycles = (length * frequency) / sampleRate;
+    const error = Math.abs(cycles - Math.round(cycles));
+    if (error < bestError) {
+      best = length;
+      bestError = error;
+      if (error < LOOP_TOLERANCE) break;
+    }
+  }
+  return best;
+}
+
+// Short linear fades at both ends, so the tone starts and stops without a click
+function applyFades(samples: Float32Array, sampleRate: number): void {
+  const fade = Math.min(Math.round(FADE_SECONDS * sampleRate), samples.length >> 1);
+  for (let i = 0; i < fade; i++) {
+    const gain = i / fade;
+    samples[i] *= gain;
+    samples[samples.length - 1 - i] *= gain;
+  }
+}
+
+// Small seeded generator, so a pluck sounds and measures the same every time
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
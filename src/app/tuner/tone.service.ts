@@ -0,0 +1,47 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { noteToFrequency, temperamentOffsets } from './audio-recorder';
+import { TonePlayer } from './tone-player';
+import { SettingsService } from './settings.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ToneService implements OnDestroy {
+  private player = new TonePlayer();
+  private _playing = new BehaviorSubject<string | null>(null);
+
+  // Note sounding, such as "E2", or null when silent
+  playing$: Observable<string | null> = this._playing.asObservable();
+
+  constructor(private settingsService: SettingsService, private ngZone: NgZone) {
+    this.player.onFinished(() => {
+      this.ngZone.run(() => this._playing.next(null));
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.player.dispose();
+  }
+
+  // Play a note at the reference pitch and temperament in the chosen sound,
+  // offset by any cents, or stop it when it is already sounding
+  toggleNote(note: string, octave: number, cents: number = 0): void {
+    const name = `${note}${octave}`;
+    if (this._playing.value === name) {
+      this.stop();
+      return;
+    }
+
+    const { referencePitch, toneWaveform, temperament, temperamentTonic } = this.settingsService.settings;
+    const offsets = temperamentOffsets(temperament, temperamentTonic);
+    const frequency = noteToFrequency(note, octave, referencePitch, offsets) * Math.pow(2, cents / 1200);
+    this.player.playFrequency(frequency, toneWaveform);
+    this._playing.next(this.player.isPlaying ? name : null);
+  }
+
+  stop(): void {
+    this.player.stop();
+    this._playing.next(null);
+  }
+}
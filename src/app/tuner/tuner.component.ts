@@ -3,10 +3,17 @@ import { Component, ElementRef, Inject, NO_ERRORS_SCHEMA, NgZone, OnDestroy, OnI
 import { ModalDialogService, registerElement } from '@nativescript/angular';
 import { Canvas } from '@nativescript/canvas';
 import { Application, Color, EventData, Page, Screen } from '@nativescript/core';
-import { Subscription } from 'rxjs';
-import { AudioService, PitchData } from './audio.service';
+import { BehaviorSubject, Observable, Subscription, combineLatest, map } from 'rxjs';
+import { AudioService, DRUM_MAX_FREQUENCY, DRUM_MIN_FREQUENCY, PitchAverage, PitchData, SpectrumData, StringDeviation } from './audio.service';
 import { AppSettings, SettingsService } from './settings.service';
 import { SettingsComponent } from './settings.component';
+import { INSTRUMENT_INFO } from './instruments';
+import { DisplayHold } from './display-hold';
+import { DrumLugs } from './drum-lugs';
+import { StretchService } from './stretch.service';
+import { ToneService } from './tone.service';
+import { TuningString } from './tunings';
+import { assessStringHealth, describeStringHealth } from './string-health';
 import {
   TunerRenderer,
   TunerRendererContext,
@@ -17,7 +24,9 @@ import {
   PitchblackRenderer,
   WalrusCanvasRenderer,
   BossChromaticRenderer,
-  ModernRenderer
+  ModernRenderer,
+  PolyphonicRenderer,
+  DrumRenderer
 } from './renderers';
 
 // Register the Canvas element
@@ -33,6 +42,11 @@ const RENDERERS: Record<TunerStyle, TunerRenderer> = {
   modern: new ModernRenderer()
 };
 
+// Polyphonic mode always uses the all-strings display
+const POLYPHONIC_RENDERER = new PolyphonicRenderer();
+// and drum mode the lug layout
+const DRUM_RENDERER = new DrumRenderer();
+
 @Component({
   selector: 'ns-tuner',
   templateUrl: './tuner.component.html',
@@ -48,6 +62,12 @@ export class TunerComponent implements OnInit, OnDestroy {
   private subscriptions: Subscription[] = [];
   private animationId: number = 0;
   private currentPitch: PitchData | null = null;
+  private currentSpectrum: SpectrumData | null = null;
+  private currentStrings: StringDeviation[] | null = null;
+  private lastOnset: number | null = null;
+  private currentAverage: PitchAverage | null = null;
+  private displayHold = new DisplayHold();
+  private drumLugs = new DrumLugs(6);
   private targetCents: number = 0;
   private displayedCents: number = 0;
   private currentRenderer: TunerRenderer = RENDERERS.classic;
@@ -60,10 +80,34 @@ export class TunerComponent implements OnInit, OnDestroy {
   
   private isListening = false;
   private settings!: AppSettings;
+  private _stringWarning = new BehaviorSubject<string | null>(null);
+
+  // Shown over the canvas while the input carries strong mains hum
+  readonly humWarning$: Observable<string | null> = this.audioService.humFrequency$.pipe(
+    map(frequency => frequency ? `Strong ${frequency} Hz hum detected, move away from mains power` : null)
+  );
+
+  // Shown after a string measures worn, until tapped away
+  readonly stringWarning$: Observable<string | null> = this._stringWarning.asObservable();
+
+  // Play-string buttons for the selected tuning, when enabled for a single-note mode
+  readonly toneStrings$: Observable<TuningString[]> = combineLatest([this.settingsService.settings$, this.settingsService.tuning$]).pipe(
+    map(([settings, tuning]) => settings.showToneButtons && (settings.tunerMode === 'chromatic' || settings.tunerMode === 'string')
+      ? tuning.strings
+      : [])
+  );
+  readonly playingTone$: Observable<string | null> = this.toneService.playing$;
+
+  // Lug controls are only shown in drum mode
+  readonly drumMode$: Observable<boolean> = this.settingsService.settings$.pipe(
+    map(settings => settings.tunerMode === 'drum')
+  );
 
   constructor(
     private audioService: AudioService,
     private settingsService: SettingsService,
+    private stretchService: StretchService,
+    private toneService: ToneService,
     @Inject(ModalDialogService) private modalService: ModalDialogService,
     @Inject(ViewContainerRef) private viewContainerRef: ViewContainerRef,
     @Inject(NgZone) private ngZone: NgZone,
@@ -84,37 +128,143 @@ export class TunerComponent implements OnInit, OnDestroy {
     this.subscriptions.push(
       this.settingsService.settings$.subscribe(settings => {
         this.settings = { ...settings };
-        this.currentRenderer = RENDERERS[settings.tunerStyle] || RENDERERS.classic;
+        this.currentRenderer = settings.tunerMode === 'polyphonic'
+          ? POLYPHONIC_RENDERER
+          : settings.tunerMode === 'drum'
+            ? DRUM_RENDERER
+            : RENDERERS[settings.tunerStyle] || RENDERERS.classic;
         this.currentColors = this.currentRenderer.getColors(settings.theme);
         this.updateSystemBarColors();
+        this.displayHold.setSeconds(settings.displayHold);
+        this.drumLugs.setLugCount(settings.drumLugCount);
+        this.stretchService.setInstrument(settings.instrument);
+        const instrument = INSTRUMENT_INFO[settings.instrument] ?? INSTRUMENT_INFO.guitar;
+        // Drum heads sit outside every instrument's range
+        const isDrum = settings.tunerMode === 'drum';
         this.audioService.updateSettings({
           referencePitch: settings.referencePitch,
+          temperament: settings.temperament,
+          temperamentTonic: settings.temperamentTonic,
           noiseThreshold: settings.noiseThreshold,
-          bufferSize: settings.bufferSize
+          bufferSize: settings.bufferSize,
+          hopSize: settings.hopSize,
+          pitchAlgorithm: settings.pitchAlgorithm,
+          smoothing: settings.smoothing,
+          centsPrecision: settings.centsPrecision,
+          averageWindow: settings.averageWindow,
+          mode: settings.tunerMode,
+          minFrequency: isDrum ? DRUM_MIN_FREQUENCY : instrument.minFrequency,
+          maxFrequency: isDrum ? DRUM_MAX_FREQUENCY : instrument.maxFrequency,
+          inputFilters: {
+            dcBlock: settings.dcBlock,
+            bandPass: settings.bandPass,
+            humNotch: settings.humNotch
+          },
+          stringHealth: settings.stringHealth
         });
       })
     );
 
+    // Follow the selected tuning, including edits to a custom one
+    this.subscriptions.push(
+      this.settingsService.tuning$.subscribe(tuning => {
+        this.audioService.updateSettings({ tuning });
+      })
+    );
+
     // Subscribe to pitch data
     this.subscriptions.push(
       this.audioService.pitchData$.subscribe(pitch => {
-        this.currentPitch = pitch;
+        this.currentPitch = this.displayHold.update(pitch, Date.now());
         if (pitch) {
           this.targetCents = pitch.cents;
         }
       })
     );
 
+    // Subscribe to the precision-tune average
+    this.subscriptions.push(
+      this.audioService.averagePitch$.subscribe(average => {
+        this.currentAverage = average;
+      })
+    );
+
+    // Subscribe to the magnitude spectrum
+    this.subscriptions.push(
+      this.audioService.spectrum$.subscribe(spectrum => {
+        this.currentSpectrum = spectrum;
+      })
+    );
+
+    // Subscribe to per-string readings in polyphonic mode
+    this.subscriptions.push(
+      this.audioService.stringDeviations$.subscribe(strings => {
+        this.currentStrings = strings;
+      })
+    );
+
+    // Piano mode measures as it listens and tunes to the curve built so far
+    this.subscriptions.push(
+      this.audioService.inharmonicity$.subscribe(reading => {
+        this.stretchService.record(reading.key, reading.coefficient);
+      })
+    );
+    this.subscriptions.push(
+      this.stretchService.curve$.subscribe(stretchCurve => {
+        this.audioService.updateSettings({ stretchCurve });
+      })
+    );
+
+    // Keep each open string's health history and warn once it wears
+    this.subscriptions.push(
+      this.audioService.stringHealth$.subscribe(reading => {
+        const name = `${reading.note}${reading.octave}`;
+        const records = this.settingsService.recordStringHealth(name, {
+          timestamp: Date.now(),
+          coefficient: reading.coefficient,
+          decayRate: reading.decayRate
+        });
+        const assessment = assessStringHealth(records);
+        if (assessment?.status === 'worn' || assessment?.status === 'replace') {
+          const advice = assessment.status === 'replace' ? 'time to replace' : 'wearing';
+          this._stringWarning.next(`${name} string ${advice}: ${describeStringHealth(assessment)}`);
+        }
+      })
+    );
+
+    // Record each drum hit against the lug being tuned
+    this.subscriptions.push(
+      this.audioService.drumHit$.subscribe(hit => {
+        this.drumLugs.record(hit);
+      })
+    );
+
+    // Remember the latest note attack for renderers
+    this.subscriptions.push(
+      this.audioService.onset$.subscribe(onset => {
+        this.lastOnset = onset.timestamp;
+        // A new pluck ends the hold on the previous note
+        if (this.displayHold.isHolding) {
+          this.displayHold.clear();
+          this.currentPitch = null;
+        }
+      })
+    );
+
     // Track listening state internally
     this.subscriptions.push(
       this.audioService.isListening$.subscribe(isListening => {
         this.isListening = isListening;
+        if (!isListening) {
+          this.displayHold.clear();
+        }
       })
     );
   }
 
   ngOnDestroy(): void {
     this.stopTuner();
+    this.toneService.stop();
     this.subscriptions.forEach(sub => sub.unsubscribe());
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
@@ -178,6 +328,10 @@ export class TunerComponent implements OnInit, OnDestroy {
   }
 
   private updateAnimation(): void {
+    if (this.displayHold.expire(Date.now())) {
+      this.currentPitch = null;
+    }
+
     // Smooth cents animation
     const smoothing = 0.15;
     if (this.currentPitch) {
@@ -199,7 +353,16 @@ export class TunerComponent implements OnInit, OnDestroy {
       displayedCents: this.displayedCents,
       isListening: this.isListening,
       referencePitch: this.settings?.referencePitch ?? 440,
-      showFrequency: this.settings?.showFrequency ?? true
+      showFrequency: this.settings?.showFrequency ?? true,
+      spectrum: this.currentSpectrum,
+      strings: this.currentStrings,
+      lastOnset: this.lastOnset,
+      centsPrecision: this.settings?.centsPrecision ?? 1,
+      isHolding: this.displayHold.isHolding,
+      drum: this.settings?.tunerMode === 'drum' ? this.drumLugs.state : null,
+      // An average of another note than the one shown would be misleading
+      average: this.currentPitch && this.currentAverage?.note === this.currentPitch.note &&
+        this.currentAverage.octave === this.currentPitch.octave ? this.currentAverage : null
     };
 
     // Use the renderWithColors method if available for theme support
@@ -234,6 +397,26 @@ export class TunerComponent implements OnInit, OnDestroy {
     }
   }
 
+  previousLug(): void {
+    this.drumLugs.previous();
+  }
+
+  nextLug(): void {
+    this.drumLugs.next();
+  }
+
+  clearLugs(): void {
+    this.drumLugs.clear();
+  }
+
+  playString(string: TuningString): void {
+    this.toneService.toggleNote(string.note, string.octave, string.cents ?? 0);
+  }
+
+  dismissStringWarning(): void {
+    this._stringWarning.next(null);
+  }
+
   openSettings(): void {
     this.audioService.stopListening();
     
@@ -0,0 +1,133 @@
+import { NOTE_NAMES, noteToFrequency } from './audio-recorder';
+import type { InstrumentType } from './instruments';
+
+export interface TuningString {
+  note: string;
+  octave: number;
+  cents?: number; // Deliberate offset from equal temperament, e.g. -2 for a sweetened B
+}
+
+export interface Tuning {
+  id: string;
+  name: string;
+  strings: TuningString[]; // In order across the neck, lowest string first; re-entrant strings keep their place
+}
+
+export interface StringMatch {
+  index: number;     // Into the tuning's strings
+  cents: number;     // From the string's target, negative when flat
+  frequency: number; // The string's target
+}
+
+// Parse a tuning written as "E2 A2 D3 G3 B3 E4"
+function parseStrings(notes: string): TuningString[] {
+  return notes.split(' ').map(name => {
+    const match = /^([A-G]#?)(\d)$/.exec(name)!;
+    return { note: match[1], octave: Number(match[2]) };
+  });
+}
+
+export const STANDARD_TUNING: Tuning = { id: 'standard', name: 'Standard', strings: parseStrings('E2 A2 D3 G3 B3 E4') };
+
+// Tunings offered for each instrument, the first is the default
+export const TUNINGS: Record<InstrumentType, Tuning[]> = {
+  guitar: [
+    STANDARD_TUNING,
+    { id: 'drop-d', name: 'Drop D', strings: parseStrings('D2 A2 D3 G3 B3 E4') },
+    { id: 'dadgad', name: 'DADGAD', strings: parseStrings('D2 A2 D3 G3 A3 D4') },
+    { id: 'open-g', name: 'Open G', strings: parseStrings('D2 G2 D3 G3 B3 D4') },
+    { id: 'half-step-down', name: 'Half-Step Down', strings: parseStrings('D#2 G#2 C#3 F#3 A#3 D#4') }
+  ],
+  guitar7: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('B1 E2 A2 D3 G3 B3 E4') },
+    { id: 'drop-a', name: 'Drop A', strings: parseStrings('A1 E2 A2 D3 G3 B3 E4') },
+    { id: 'half-step-down', name: 'Half-Step Down', strings: parseStrings('A#1 D#2 G#2 C#3 F#3 A#3 D#4') }
+  ],
+  guitar8: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('F#1 B1 E2 A2 D3 G3 B3 E4') },
+    { id: 'drop-e', name: 'Drop E', strings: parseStrings('E1 B1 E2 A2 D3 G3 B3 E4') },
+    { id: 'half-step-down', name: 'Half-Step Down', strings: parseStrings('F1 A#1 D#2 G#2 C#3 F#3 A#3 D#4') }
+  ],
+  bass: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('E1 A1 D2 G2') },
+    { id: 'drop-d', name: 'Drop D', strings: parseStrings('D1 A1 D2 G2') },
+    { id: 'half-step-down', name: 'Half-Step Down', strings: parseStrings('D#1 G#1 C#2 F#2') }
+  ],
+  bass5: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('B0 E1 A1 D2 G2') },
+    { id: 'half-step-down', name: 'Half-Step Down', strings: parseStrings('A#0 D#1 G#1 C#2 F#2') }
+  ],
+  bass6: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('B0 E1 A1 D2 G2 C3') }
+  ],
+  ukulele: [
+    { id: 'standard', name: 'Standard (High G)', strings: parseStrings('G4 C4 E4 A4') },
+    { id: 'low-g', name: 'Low G', strings: parseStrings('G3 C4 E4 A4') },
+    { id: 'baritone', name: 'Baritone', strings: parseStrings('D3 G3 B3 E4') }
+  ],
+  mandolin: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('G3 D4 A4 E5') }
+  ],
+  violin: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('G3 D4 A4 E5') }
+  ],
+  viola: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('C3 G3 D4 A4') }
+  ],
+  cello: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('C2 G2 D3 A3') }
+  ],
+  doubleBass: [
+    { id: 'standard', name: 'Standard', strings: parseStrings('E1 A1 D2 G2') }
+  ],
+  banjo: [
+    { id: 'open-g', name: 'Open G', strings: parseStrings('G4 D3 G3 B3 D4') },
+    { id: 'double-c', name: 'Double C', strings: parseStrings('G4 C3 G3 C4 D4') },
+    { id: 'open-d', name: 'Open D', strings: parseStrings('F#4 D3 F#3 A3 D4') }
+  ],
+  // Pianos have no open strings to pick from; string and polyphonic modes fall back to guitar
+  piano: []
+};
+
+// Ids of user-made tunings, which are offered for every instrument
+export const CUSTOM_TUNING_PREFIX = 'custom-';
+
+// The tuning with this id among the instrument's and the custom ones, or the instrument's default
+export function getTuning(instrument: InstrumentType, id: string, customTunings: Tuning[] = []): Tuning {
+  const tunings = TUNINGS[instrument] ?? [];
+  return tunings.find(tuning => tuning.id === id) ??
+    customTunings.find(tuning => tuning.id === id) ??
+    tunings[0] ?? STANDARD_TUNING;
+}
+
+// Note names of a tuning such as "E2 A2 D3 G3 B3-2¢ E4", with any cent offsets
+export function describeTuning(tuning: Tuning): string {
+  return tuning.strings.map(({ note, octave, cents }) => {
+    const offset = cents ? `${cents > 0 ? '+' : ''}${cents}¢` : '';
+    return `${note}${octave}${offset}`;
+  }).join(' ');
+}
+
+// The string moved by a number of semitones, keeping its cent offset
+export function transposeString(string: TuningString, semitones: number): TuningString {
+  const index = string.octave * 12 + NOTE_NAMES.indexOf(string.note) + semitones;
+  return { ...string, note: NOTE_NAMES[((index % 12) + 12) % 12], octave: Math.floor(index / 12) };
+}
+
+// Target of a tuning's string, including any deliberate cent offset
+export function stringFrequency({ note, octave, cents }: TuningString, referencePitch: number = 440, offsets?: number[]): number {
+  return noteToFrequency(note, octave, referencePitch, offsets) * Math.pow(2, (cents ?? 0) / 1200);
+}
+
+// The string whose target is nearest the frequency, null for a tuning without strings
+export function nearestString(tuning: Tuning, frequency: number, referencePitch: number = 440, offsets?: number[]): StringMatch | null {
+  let match: StringMatch | null = null;
+  for (let index = 0; index < tuning.strings.length; index++) {
+    const target = stringFrequency(tuning.strings[index], referencePitch, offsets);
+    const cents = 1200 * Math.log2(frequency / target);
+    if (!match || Math.abs(cents) < Math.abs(match.cents)) {
+      match = { index, cents, frequency: target };
+    }
+  }
+  return match;
+}
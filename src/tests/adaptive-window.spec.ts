@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveWindow } from '../app/tuner/adaptive-window';
+import { INSTRUMENT_INFO } from '../app/tuner/instruments';
+
+/**
+ * Adaptive analysis window
+ * The window holds a few periods of the note being played: it grows at once
+ * for a lower note and shrinks only after a run of higher readings.
+ */
+
+const SAMPLE_RATE = 44100;
+const E2 = 82.41;
+const A2 = 110;
+const E4 = 329.63;
+
+function guitarWindow(): AdaptiveWindow {
+  return new AdaptiveWindow(SAMPLE_RATE, INSTRUMENT_INFO.guitar.minFrequency);
+}
+
+describe('AdaptiveWindow', () => {
+  it('starts from a window that hears the lowest note of the instrument', () => {
+    expect(guitarWindow().size).toBe(2048);
+    expect(new AdaptiveWindow(SAMPLE_RATE, INSTRUMENT_INFO.bass.minFrequency).size).toBe(4096);
+  });
+
+  it('grows at once for a lower note', () => {
+    expect(guitarWindow().update(E2)).toBe(4096);
+  });
+
+  it('shrinks only after ten readings in a row ask for less', () => {
+    const window = guitarWindow();
+
+    for (let i = 0; i < 9; i++) {
+      expect(window.update(E4), `reading ${i + 1}`).toBe(2048);
+    }
+    expect(window.update(E4)).toBe(1024);
+  });
+
+  it('restarts the count when a reading fits the current window', () => {
+    const window = guitarWindow();
+    for (let i = 0; i < 9; i++) window.update(E4);
+    window.update(A2);
+
+    expect(window.update(E4)).toBe(2048);
+  });
+
+  it('stops at the largest window', () => {
+    expect(guitarWindow().update(20)).toBe(8192);
+  });
+
+  it('goes back to the widest window on reset', () => {
+    const window = guitarWindow();
+    window.update(E2);
+
+    expect(window.reset()).toBe(2048);
+  });
+
+  it('follows a change of sample rate or range', () => {
+    const window = guitarWindow();
+
+    expect(window.setRange(96000, INSTRUMENT_INFO.guitar.minFrequency)).toBe(4096);
+    expect(window.setRange(SAMPLE_RATE, INSTRUMENT_INFO.bass.minFrequency)).toBe(4096);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { PitchData } from '../app/tuner/audio-recorder/audio.common';
+import { DisplayHold } from '../app/tuner/display-hold';
+
+/**
+ * Display hold
+ * The last confident reading stays up for the hold time after the note dies
+ * away, and never outlives a newer reading or a note that stopped.
+ */
+
+function reading(note: string, cents: number, confidence = 0.9): PitchData {
+  return { frequency: 110, note, octave: 2, cents, amplitude: 0.1, confidence };
+}
+
+describe('DisplayHold', () => {
+  it('keeps the last confident reading up until the hold runs out', () => {
+    const hold = new DisplayHold(3);
+    const tuned = reading('A', 2);
+    hold.update(tuned, 0);
+
+    expect(hold.update(null, 1000)).toBe(tuned);
+    expect(hold.isHolding).toBe(true);
+    expect(hold.expire(3999)).toBe(false);
+    expect(hold.expire(4000)).toBe(true);
+    expect(hold.update(null, 4100)).toBeNull();
+  });
+
+  it('times the hold from when the note died away', () => {
+    const hold = new DisplayHold(3);
+    hold.update(reading('A', 2), 0);
+    hold.update(null, 1000);
+    hold.update(null, 2000);
+
+    expect(hold.expire(3500)).toBe(false);
+  });
+
+  it('holds the last confident reading, not the fading ones after it', () => {
+    const hold = new DisplayHold(3);
+    const tuned = reading('A', 2);
+    hold.update(tuned, 0);
+    hold.update(reading('A', -12, 0.3), 100);
+
+    expect(hold.update(null, 200)).toBe(tuned);
+  });
+
+  it('drops a note that is no longer being played', () => {
+    const hold = new DisplayHold(3);
+    hold.update(reading('A', 2), 0);
+    hold.update(reading('D', 30, 0.3), 100);
+
+    expect(hold.update(null, 200)).toBeNull();
+  });
+
+  it('ends the hold on a new reading', () => {
+    const hold = new DisplayHold(3);
+    hold.update(reading('A', 2), 0);
+    hold.update(null, 100);
+    const next = reading('A', -4);
+
+    expect(hold.update(next, 200)).toBe(next);
+    expect(hold.isHolding).toBe(false);
+  });
+
+  it('holds nothing when turned off', () => {
+    const hold = new DisplayHold(3);
+    hold.update(reading('A', 2), 0);
+    hold.update(null, 100);
+    hold.setSeconds(0);
+
+    expect(hold.isHolding).toBe(false);
+    expect(hold.update(null, 200)).toBeNull();
+  });
+});
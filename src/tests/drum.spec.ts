@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DrumPeakFinder } from '../app/tuner/audio-recorder/drum';
+
+/**
+ * Drum head analysis
+ * The lowest strong peak of a struck membrane is its fundamental and the next
+ * one up its first overtone, however inharmonic the partials are.
+ */
+
+const SAMPLE_RATE = 44100;
+const WINDOW_SIZE = 8192;
+// Partials of an ideal membrane relative to its fundamental
+const MEMBRANE_RATIOS = [1, 1.594, 2.136, 2.296];
+
+// A hit with the given partials as [frequency, amplitude], each dying away
+function hit(partials: [number, number][]): Float32Array {
+  const samples = new Float32Array(WINDOW_SIZE);
+  for (let i = 0; i < WINDOW_SIZE; i++) {
+    const t = i / SAMPLE_RATE;
+    for (const [frequency, amplitude] of partials) {
+      samples[i] += amplitude * Math.exp(-4 * t) * Math.sin(2 * Math.PI * frequency * t);
+    }
+  }
+  return samples;
+}
+
+describe('DrumPeakFinder', () => {
+  it('finds the fundamental and first overtone of a membrane', () => {
+    for (const fundamental of [65, 110, 196]) {
+      const peaks = new DrumPeakFinder().find(hit(MEMBRANE_RATIOS.map((ratio, i) => [fundamental * ratio, 0.4 / (i + 1)])), SAMPLE_RATE);
+
+      expect(peaks?.fundamental, `${fundamental} Hz`).toBeCloseTo(fundamental, 0);
+      expect(peaks?.overtone, `${fundamental} Hz`).toBeCloseTo(fundamental * MEMBRANE_RATIOS[1], 0);
+    }
+  });
+
+  it('reports no overtone when none stands out', () => {
+    expect(new DrumPeakFinder().find(hit([[120, 0.5]]), SAMPLE_RATE)?.overtone).toBe(0);
+    expect(new DrumPeakFinder().find(hit([[120, 0.5], [191, 0.02]]), SAMPLE_RATE)?.overtone).toBe(0);
+  });
+
+  it('looks only within the drum range', () => {
+    const peaks = new DrumPeakFinder().find(hit([[20, 0.8], [100, 0.4], [159.4, 0.2]]), SAMPLE_RATE);
+
+    expect(peaks?.fundamental).toBeCloseTo(100, 0);
+  });
+
+  it('finds nothing in silence', () => {
+    expect(new DrumPeakFinder().find(new Float32Array(WINDOW_SIZE), SAMPLE_RATE)).toBeNull();
+  });
+
+  it('gives the same answer when reused for the next hit', () => {
+    const finder = new DrumPeakFinder();
+    const samples = hit([[90, 0.4], [143.5, 0.2]]);
+    const first = finder.find(samples, SAMPLE_RATE);
+    finder.find(hit([[150, 0.4]]), SAMPLE_RATE);
+
+    expect(finder.find(samples, SAMPLE_RATE)).toEqual(first);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { InharmonicityMeter } from '../app/tuner/audio-recorder/inharmonicity';
+
+/**
+ * Inharmonicity measurement
+ * The fitted coefficient and fundamental of a stiff string must match the
+ * ones it was synthesized with, and a harmonic tone must read as unstretched.
+ */
+
+const SAMPLE_RATE = 44100;
+const WINDOW_SIZE = 8192;
+const PARTIALS = 10;
+
+// A stiff string: partial n at n * f0 * sqrt(1 + B * n²), falling off as 1/n
+function stiffString(fundamental: number, coefficient: number, size = WINDOW_SIZE): Float32Array {
+  const samples = new Float32Array(size);
+  for (let n = 1; n <= PARTIALS; n++) {
+    const frequency = n * fundamental * Math.sqrt(1 + coefficient * n * n);
+    for (let i = 0; i < size; i++) {
+      samples[i] += (0.3 / n) * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+describe('InharmonicityMeter', () => {
+  for (const [fundamental, coefficient] of [[110, 0.0002], [220, 0.0005], [440, 0.001]]) {
+    it(`fits B = ${coefficient} on a ${fundamental} Hz string`, () => {
+      const heard = fundamental * Math.sqrt(1 + coefficient);
+      const estimate = new InharmonicityMeter().measure(stiffString(fundamental, coefficient), SAMPLE_RATE, heard);
+
+      expect(estimate?.coefficient).toBeGreaterThan(coefficient * 0.9);
+      expect(estimate?.coefficient).toBeLessThan(coefficient * 1.1);
+      expect(estimate?.fundamental).toBeCloseTo(fundamental, 1);
+      expect(estimate?.partials).toBe(PARTIALS);
+    });
+  }
+
+  it('reads a harmonic tone as unstretched', () => {
+    const estimate = new InharmonicityMeter().measure(stiffString(196, 0), SAMPLE_RATE, 196);
+
+    expect(estimate?.coefficient).toBeLessThan(1e-5);
+  });
+
+  it('needs several partials', () => {
+    const sine = stiffString(196, 0).map((_, i) => 0.3 * Math.sin((2 * Math.PI * 196 * i) / SAMPLE_RATE));
+
+    expect(new InharmonicityMeter().measure(sine, SAMPLE_RATE, 196)).toBeNull();
+  });
+
+  it('gives up when the window cannot separate the partials', () => {
+    expect(new InharmonicityMeter().measure(stiffString(110, 0.0002, 1024), SAMPLE_RATE, 110)).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { InputFilterChain, InputFilterOptions } from '../app/tuner/audio-recorder/filters';
+import { rms } from '../app/tuner/audio-recorder/pitch-analyzer';
+
+/**
+ * Input filters
+ * The chain removes DC and out-of-range rumble, finds mains hum on its own
+ * and notches it, while a note in range passes at full level.
+ */
+
+const SAMPLE_RATE = 44100;
+const CHUNK = 4096;
+const MIN_FREQUENCY = 80;
+const MAX_FREQUENCY = 1200;
+const ONLY_NOTCH: InputFilterOptions = { dcBlock: false, bandPass: false, humNotch: 'auto' };
+
+function tone(frequency: number, amplitude: number, seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return samples;
+}
+
+// Filters the input in chunks, as the recorder does, and returns the output
+function filter(chain: InputFilterChain, input: Float32Array): Float32Array {
+  const output = new Float32Array(input.length);
+  for (let start = 0; start < input.length; start += CHUNK) {
+    const end = Math.min(input.length, start + CHUNK);
+    chain.process(input.subarray(start, end), output.subarray(start, end));
+  }
+  return output;
+}
+
+// RMS over the last half second, once the filters have settled
+function settledLevel(samples: Float32Array): number {
+  return rms(samples.subarray(samples.length - SAMPLE_RATE / 2));
+}
+
+describe('InputFilterChain', () => {
+  it('removes a DC offset', () => {
+    const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, { dcBlock: true, bandPass: false, humNotch: 'off' });
+    const output = filter(chain, new Float32Array(2 * SAMPLE_RATE).fill(0.5));
+
+    expect(settledLevel(output)).toBeLessThan(1e-3);
+  });
+
+  it('passes a note in range at full level', () => {
+    const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY);
+    const output = filter(chain, tone(196, 0.5, 2));
+
+    expect(settledLevel(output) / (0.5 * Math.SQRT1_2)).toBeCloseTo(1, 1);
+  });
+
+  it('rolls off rumble below the lowest note and noise far above the highest', () => {
+    const options: InputFilterOptions = { dcBlock: false, bandPass: true, humNotch: 'off' };
+    const rumble = filter(new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, options), tone(15, 0.5, 2));
+    const hiss = filter(new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, options), tone(15000, 0.5, 2));
+
+    expect(settledLevel(rumble)).toBeLessThan(0.1 * settledLevel(tone(15, 0.5, 2)));
+    expect(settledLevel(hiss)).toBeLessThan(0.1 * settledLevel(tone(15000, 0.5, 2)));
+  });
+
+  it('carries filter state across chunks', () => {
+    const input = tone(110, 0.5, 0.5);
+    const whole = new Float32Array(input.length);
+    new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY).process(input, whole);
+    const chunked = filter(new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY), input);
+
+    expect(Array.from(chunked)).toEqual(Array.from(whole));
+  });
+
+  describe('hum', () => {
+    for (const mains of [50, 60]) {
+      it(`detects ${mains} Hz hum and notches it in auto mode`, () => {
+        const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, ONLY_NOTCH);
+        const output = filter(chain, tone(mains, 0.05, 3));
+
+        expect(chain.humFrequency).toBe(mains);
+        expect(settledLevel(output)).toBeLessThan(0.002);
+      });
+    }
+
+    it('does not mistake a note for hum', () => {
+      const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, ONLY_NOTCH);
+      filter(chain, tone(82.41, 0.3, 3));
+
+      expect(chain.humFrequency).toBe(0);
+    });
+
+    it('ignores hum too faint to bias detection', () => {
+      const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, ONLY_NOTCH);
+      filter(chain, tone(50, 0.001, 3));
+
+      expect(chain.humFrequency).toBe(0);
+    });
+
+    it('keeps warning about hum it does not notch', () => {
+      const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, { ...ONLY_NOTCH, humNotch: 'off' });
+      const output = filter(chain, tone(60, 0.05, 3));
+
+      expect(chain.humFrequency).toBe(60);
+      expect(settledLevel(output)).toBeCloseTo(0.05 * Math.SQRT1_2, 4);
+    });
+
+    it('notches a fixed mains frequency from the start', () => {
+      const chain = new InputFilterChain(SAMPLE_RATE, MIN_FREQUENCY, MAX_FREQUENCY, { ...ONLY_NOTCH, humNotch: 60 });
+      const output = filter(chain, tone(60, 0.05, 0.9));
+
+      expect(chain.humFrequency).toBe(0);
+      expect(settledLevel(output)).toBeLessThan(0.002);
+    });
+  });
+});
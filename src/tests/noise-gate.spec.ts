@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { AUTO_NOISE_THRESHOLD, GateState, NoiseGate } from '../app/tuner/noise-gate';
+
+/**
+ * Noise gate
+ * Opens above the threshold, closes below half of it after holding and
+ * releasing, and in auto mode measures the room before opening at all.
+ */
+
+// A power of two, so hold and release timers add up exactly
+const FRAME_SECONDS = 0.125;
+
+function run(gate: NoiseGate, levels: number[]): GateState[] {
+  return levels.map(level => gate.process(level, FRAME_SECONDS));
+}
+
+describe('NoiseGate', () => {
+  it('opens at the threshold and closes only below the lower close threshold', () => {
+    const gate = new NoiseGate(0.02);
+
+    expect(run(gate, [0.01, 0.02, 0.015, 0.011])).toEqual(['closed', 'open', 'open', 'open']);
+    expect(gate.closeThreshold).toBe(0.01);
+  });
+
+  it('holds, then releases, then closes after the level drops', () => {
+    const gate = new NoiseGate(0.02);
+    run(gate, [0.05]);
+
+    // Default 0.25 s hold and 0.3 s release
+    expect(run(gate, [0, 0, 0, 0, 0])).toEqual(['hold', 'release', 'release', 'release', 'closed']);
+  });
+
+  it('opens again when a note returns during the release', () => {
+    const gate = new NoiseGate(0.02);
+    run(gate, [0.05, 0, 0]);
+
+    expect(run(gate, [0.012])).toEqual(['open']);
+  });
+
+  describe('auto threshold', () => {
+    it('stays shut while it measures the room', () => {
+      const gate = new NoiseGate(AUTO_NOISE_THRESHOLD);
+
+      expect(run(gate, [0.002, 0.5, 0.002, 0.5])).toEqual(['closed', 'closed', 'closed', 'closed']);
+      expect(gate.isAuto).toBe(true);
+    });
+
+    it('opens a fixed margin above the quietest frame it measured', () => {
+      const gate = new NoiseGate(AUTO_NOISE_THRESHOLD);
+      run(gate, [0.004, 0.003, 0.005, 0.003, 0.004, 0.003]);
+
+      expect(gate.noiseFloor).toBe(0.003);
+      expect(gate.openThreshold).toBeCloseTo(0.012, 9);
+      expect(run(gate, [0.0125])).toEqual(['open']);
+    });
+
+    it('keeps the threshold within its limits', () => {
+      const silent = new NoiseGate(AUTO_NOISE_THRESHOLD);
+      run(silent, new Array(6).fill(0));
+      const loud = new NoiseGate(AUTO_NOISE_THRESHOLD);
+      run(loud, new Array(6).fill(0.1));
+
+      expect(silent.openThreshold).toBe(0.001);
+      expect(loud.openThreshold).toBe(0.08);
+    });
+
+    it('follows a quieter room quickly and a louder one slowly', () => {
+      const quieter = new NoiseGate(AUTO_NOISE_THRESHOLD);
+      run(quieter, new Array(6).fill(0.004));
+      run(quieter, [0.002, 0.002]);
+      const louder = new NoiseGate(AUTO_NOISE_THRESHOLD);
+      run(louder, new Array(6).fill(0.004));
+      run(louder, [0.008, 0.008]);
+
+      // More than halfway down in a quarter second, barely up
+      expect(quieter.noiseFloor!).toBeLessThan(0.003);
+      expect(louder.noiseFloor!).toBeLessThan(0.0045);
+    });
+
+    it('does not count notes towards the floor', () => {
+      const gate = new NoiseGate(AUTO_NOISE_THRESHOLD);
+      run(gate, new Array(6).fill(0.004));
+      run(gate, new Array(16).fill(0.2));
+
+      expect(gate.noiseFloor).toBe(0.004);
+    });
+  });
+
+  it('measures the room again after switching to auto', () => {
+    const gate = new NoiseGate(0.02);
+    run(gate, [0.05]);
+    gate.setThreshold(AUTO_NOISE_THRESHOLD);
+
+    expect(gate.noiseFloor).toBeNull();
+    expect(run(gate, [0.05])).toEqual(['closed']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { PitchData } from '../app/tuner/audio-recorder/audio.common';
+import { NOTE_NAMES, frequencyToNote } from '../app/tuner/audio-recorder/notes';
+import { NoteLock } from '../app/tuner/note-lock';
+
+/**
+ * Note lock
+ * A reading near a semitone boundary keeps the note it started on until it is
+ * clearly past the boundary or its confidence collapses.
+ */
+
+const A4 = 440;
+
+// A reading at the given cents from A4, named as the analyzer names it
+function reading(centsFromA4: number, confidence: number = 0.9, temperament?: number[]): PitchData {
+  const frequency = A4 * Math.pow(2, centsFromA4 / 1200);
+  return { ...frequencyToNote(frequency, A4, temperament), amplitude: 0.1, confidence };
+}
+
+describe('NoteLock', () => {
+  it('passes the first reading through', () => {
+    const lock = new NoteLock();
+    const pitch = reading(10);
+    expect(lock.apply(pitch, A4)).toBe(pitch);
+  });
+
+  it('holds the note a little past the semitone boundary', () => {
+    const lock = new NoteLock();
+    lock.apply(reading(40), A4);
+    const held = lock.apply(reading(60), A4);
+
+    expect(`${held.note}${held.octave}`).toBe('A4');
+    expect(held.cents).toBeCloseTo(60, 6);
+  });
+
+  it('switches once the pitch is clearly past the boundary', () => {
+    const lock = new NoteLock();
+    lock.apply(reading(40), A4);
+    const switched = lock.apply(reading(70), A4);
+
+    expect(`${switched.note}${switched.octave}`).toBe('A#4');
+    expect(switched.cents).toBeCloseTo(-30, 6);
+  });
+
+  it('holds in both directions', () => {
+    const lock = new NoteLock();
+    lock.apply(reading(-45), A4);
+    const held = lock.apply(reading(-60), A4);
+
+    expect(`${held.note}${held.octave}`).toBe('A4');
+    expect(held.cents).toBeCloseTo(-60, 6);
+  });
+
+  it('snaps to the nearest note when confidence collapses', () => {
+    const lock = new NoteLock();
+    lock.apply(reading(40), A4);
+    const released = lock.apply(reading(60, 0.2), A4);
+
+    expect(`${released.note}${released.octave}`).toBe('A#4');
+  });
+
+  it('measures the boundary from the tempered notes', () => {
+    // A raised by 20 cents, so 80 cents above equal-tempered A4 is only 60 above A
+    const temperament = NOTE_NAMES.map(note => (note === 'A' ? 20 : 0));
+    const lock = new NoteLock();
+    lock.apply(reading(50, 0.9, temperament), A4, temperament);
+    const held = lock.apply(reading(80, 0.9, temperament), A4, temperament);
+
+    expect(`${held.note}${held.octave}`).toBe('A4');
+    expect(held.cents).toBeCloseTo(60, 6);
+  });
+
+  it('starts over after a reset', () => {
+    const lock = new NoteLock();
+    lock.apply(reading(40), A4);
+    lock.reset();
+
+    expect(lock.apply(reading(60), A4).note).toBe('A#');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { OctaveTracker } from '../app/tuner/audio-recorder/octave-correction';
+import { noteToFrequency } from '../app/tuner/audio-recorder/notes';
+import { drone, sine } from '../app/tuner/tone-player/synthesis';
+
+/**
+ * Octave correction
+ * A detector's estimate is moved to the octave the partials support, and an
+ * octave jump within a held note has to last a few frames.
+ */
+
+const SAMPLE_RATE = 44100;
+const WINDOW_SIZE = 4096;
+const E2 = noteToFrequency('E', 2);
+const E3 = noteToFrequency('E', 3);
+
+function excerpt(samples: Float32Array): Float32Array {
+  return samples.subarray(SAMPLE_RATE / 10, SAMPLE_RATE / 10 + WINDOW_SIZE);
+}
+
+describe('OctaveTracker', () => {
+  const harmonicE2 = excerpt(drone(E2, SAMPLE_RATE));
+  const pureE3 = excerpt(sine(E3, SAMPLE_RATE, 0.5));
+
+  it('keeps an estimate its partials support', () => {
+    expect(new OctaveTracker(60, 1500).correct(harmonicE2, SAMPLE_RATE, E2)).toBe(E2);
+  });
+
+  it('drops to the fundamental when the estimate is its second harmonic', () => {
+    expect(new OctaveTracker(60, 1500).correct(harmonicE2, SAMPLE_RATE, E3)).toBeCloseTo(E2, 6);
+  });
+
+  it('drops to the fundamental when the estimate is its third harmonic', () => {
+    expect(new OctaveTracker(60, 1500).correct(harmonicE2, SAMPLE_RATE, 3 * E2)).toBeCloseTo(E2, 6);
+  });
+
+  it('rises to the fundamental when the estimate is a subharmonic', () => {
+    expect(new OctaveTracker(60, 1500).correct(pureE3, SAMPLE_RATE, E2)).toBeCloseTo(E3, 6);
+  });
+
+  it('never drops below the lowest note of the range', () => {
+    expect(new OctaveTracker(100, 1500).correct(harmonicE2, SAMPLE_RATE, E3)).toBe(E3);
+  });
+
+  it('holds the octave of a sustained note until a jump lasts three frames', () => {
+    const tracker = new OctaveTracker(60, 1500);
+    const pureE2 = excerpt(sine(E2, SAMPLE_RATE, 0.5));
+    tracker.correct(pureE2, SAMPLE_RATE, E2);
+
+    expect(tracker.correct(pureE3, SAMPLE_RATE, E3)).toBeCloseTo(E2, 6);
+    expect(tracker.correct(pureE3, SAMPLE_RATE, E3)).toBeCloseTo(E2, 6);
+    expect(tracker.correct(pureE3, SAMPLE_RATE, E3)).toBe(E3);
+  });
+
+  it('follows a different note at once', () => {
+    const tracker = new OctaveTracker(60, 1500);
+    const a2 = noteToFrequency('A', 2);
+    tracker.correct(harmonicE2, SAMPLE_RATE, E2);
+
+    expect(tracker.correct(excerpt(drone(a2, SAMPLE_RATE)), SAMPLE_RATE, a2)).toBe(a2);
+  });
+
+  it('forgets the held octave after a reset', () => {
+    const tracker = new OctaveTracker(60, 1500);
+    tracker.correct(excerpt(sine(E2, SAMPLE_RATE, 0.5)), SAMPLE_RATE, E2);
+    tracker.reset();
+
+    expect(tracker.correct(pureE3, SAMPLE_RATE, E3)).toBe(E3);
+  });
+});
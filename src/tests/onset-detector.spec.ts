@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { SpectrumData } from '../app/tuner/audio-recorder/audio.common';
+import { OnsetDetector } from '../app/tuner/audio-recorder/onset-detector';
+
+/**
+ * Onset detection
+ * A window whose spectrum rises across the board counts as an attack, once per
+ * pluck and only above the noise threshold.
+ */
+
+const BINS = 2048;
+const BIN_WIDTH = 44100 / 4096;
+const FRAME_SECONDS = 0.02;
+const SIGNAL = new Float32Array(4096).fill(0.1);
+
+// A flat spectrum at the given magnitude
+function spectrum(level: number): SpectrumData {
+  return { magnitudes: new Float32Array(BINS).fill(level), binWidth: BIN_WIDTH };
+}
+
+describe('OnsetDetector', () => {
+  it('needs a previous window before it reports anything', () => {
+    expect(new OnsetDetector().process(spectrum(0.1), SIGNAL, 0.01, FRAME_SECONDS)).toBe(0);
+  });
+
+  it('ignores a steady ringing string', () => {
+    const detector = new OnsetDetector();
+    detector.process(spectrum(0.1), SIGNAL, 0.01, FRAME_SECONDS);
+
+    expect(detector.process(spectrum(0.1), SIGNAL, 0.01, FRAME_SECONDS)).toBe(0);
+    expect(detector.process(spectrum(0.09), SIGNAL, 0.01, FRAME_SECONDS)).toBe(0);
+  });
+
+  it('reports the relative flux of an attack', () => {
+    const detector = new OnsetDetector();
+    detector.process(spectrum(0.01), SIGNAL, 0.01, FRAME_SECONDS);
+
+    expect(detector.process(spectrum(0.1), SIGNAL, 0.01, FRAME_SECONDS)).toBeCloseTo(0.9, 6);
+  });
+
+  it('reports one attack per pluck', () => {
+    const detector = new OnsetDetector();
+    detector.process(spectrum(0.001), SIGNAL, 0.01, FRAME_SECONDS);
+    detector.process(spectrum(0.01), SIGNAL, 0.01, FRAME_SECONDS);
+
+    expect(detector.process(spectrum(0.1), SIGNAL, 0.01, FRAME_SECONDS)).toBe(0);
+  });
+
+  it('ignores attacks below the noise threshold', () => {
+    const detector = new OnsetDetector();
+    detector.process(spectrum(0.01), SIGNAL, 0.5, FRAME_SECONDS);
+
+    expect(detector.process(spectrum(0.1), SIGNAL, 0.5, FRAME_SECONDS)).toBe(0);
+  });
+
+  it('raises the bar after a run of busy windows', () => {
+    const detector = new OnsetDetector();
+    // Alternating windows keep the recent flux high without a refractory wait
+    for (let i = 0; i < 16; i++) {
+      detector.process(spectrum(i % 2 ? 0.1 : 0.05), SIGNAL, 0.01, 1);
+    }
+
+    expect(detector.process(spectrum(0.2), SIGNAL, 0.01, 1)).toBe(0);
+  });
+
+  it('forgets the previous window after a reset', () => {
+    const detector = new OnsetDetector();
+    detector.process(spectrum(0.01), SIGNAL, 0.01, FRAME_SECONDS);
+    detector.reset();
+
+    expect(detector.process(spectrum(0.1), SIGNAL, 0.01, FRAME_SECONDS)).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { PitchData } from '../app/tuner/audio-recorder/audio.common';
+import { PitchAverager } from '../app/tuner/pitch-averager';
+
+/**
+ * Precision-tune averaging
+ * Mean and spread of the confident frames of one note within the window,
+ * withheld until there are enough frames to trust.
+ */
+
+const FRAME_MS = 50;
+
+function reading(cents: number, confidence = 0.9, note = 'A'): PitchData {
+  return { frequency: 110, note, octave: 2, cents, amplitude: 0.1, confidence };
+}
+
+// Pushes one reading per frame from `start` ms and returns the last average
+function pushAll(averager: PitchAverager, cents: number[], start = 0) {
+  return cents.map((value, i) => averager.push(reading(value), start + i * FRAME_MS)).pop() ?? null;
+}
+
+describe('PitchAverager', () => {
+  it('waits for eight frames', () => {
+    const averager = new PitchAverager(2);
+
+    expect(pushAll(averager, [1, 2, 3, 4, 5, 6, 7])).toBeNull();
+    expect(averager.push(reading(8), 7 * FRAME_MS)?.frames).toBe(8);
+  });
+
+  it('reports the mean and sample spread of the window', () => {
+    const average = pushAll(new PitchAverager(2), [2, 4, 4, 4, 5, 5, 7, 9]);
+
+    expect(average?.meanCents).toBe(5);
+    expect(average?.spreadCents).toBeCloseTo(Math.sqrt(32 / 7), 9);
+    expect(average).toMatchObject({ note: 'A', octave: 2 });
+  });
+
+  it('leaves out low-confidence frames', () => {
+    const averager = new PitchAverager(2);
+    pushAll(averager, new Array(8).fill(0));
+
+    expect(averager.push(reading(40, 0.3), 8 * FRAME_MS)).toMatchObject({ meanCents: 0, frames: 8 });
+  });
+
+  it('only averages the frames within the window', () => {
+    const averager = new PitchAverager(1);
+    pushAll(averager, new Array(20).fill(-10));
+    const average = pushAll(averager, new Array(21).fill(0), 20 * FRAME_MS);
+
+    expect(average).toMatchObject({ meanCents: 0, frames: 21 });
+  });
+
+  it('starts over on a new note', () => {
+    const averager = new PitchAverager(2);
+    pushAll(averager, new Array(10).fill(3));
+
+    expect(averager.push(reading(3, 0.9, 'A#'), 10 * FRAME_MS)).toBeNull();
+  });
+
+  it('starts over when the window changes', () => {
+    const averager = new PitchAverager(2);
+    pushAll(averager, new Array(10).fill(3));
+    averager.setWindow(4);
+
+    expect(averager.push(reading(3), 10 * FRAME_MS)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { PITCH_ALGORITHM_INFO, PitchAlgorithm, PitchAnalyzer } from '../app/tuner/audio-recorder/audio.common';
+import { frequencyToNote, noteToFrequency } from '../app/tuner/audio-recorder/notes';
+import { INSTRUMENT_INFO } from '../app/tuner/instruments';
+import { synthesizeTone } from '../app/tuner/tone-player/synthesis';
+import { TestRecorder } from './test-recorder';
+
+/**
+ * Pitch detection at the rates recorders negotiate
+ * Synthetic sines at 44.1 and 48 kHz must come back as the same note within a
+ * few cents, for every detector and for the recorder once its rate changes.
+ */
+
+const SAMPLE_RATES = [44100, 48000];
+const WINDOW_SIZES = [2048, 4096];
+const NOTES: [string, number][] = [['E', 2], ['A', 2], ['D', 3], ['E', 4], ['A', 4]];
+const ALGORITHMS = Object.keys(PITCH_ALGORITHM_INFO) as PitchAlgorithm[];
+const TOLERANCE_CENTS = 3;
+
+function sine(frequency: number, sampleRate: number, length: number): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+describe('PitchAnalyzer', () => {
+  for (const algorithm of ALGORITHMS) {
+    for (const sampleRate of SAMPLE_RATES) {
+      for (const windowSize of WINDOW_SIZES) {
+        describe(`${algorithm} at ${sampleRate} Hz, ${windowSize} samples`, () => {
+          for (const [note, octave] of NOTES) {
+            it(`reads ${note}${octave} in tune`, () => {
+              // A fresh analyzer, so the octave tracker holds no earlier note
+              const analyzer = new PitchAnalyzer(sampleRate, { pitchAlgorithm: algorithm });
+              const pitch = analyzer.analyze(sine(noteToFrequency(note, octave), sampleRate, windowSize), 0.01, 440);
+
+              expect(pitch).not.toBeNull();
+              expect(`${pitch!.note}${pitch!.octave}`).toBe(`${note}${octave}`);
+              expect(Math.abs(pitch!.cents)).toBeLessThan(TOLERANCE_CENTS);
+              expect(pitch!.confidence).toBeGreaterThanOrEqual(0);
+              expect(pitch!.confidence).toBeLessThanOrEqual(1);
+            });
+          }
+        });
+      }
+    }
+  }
+});
+
+describe('AudioRecorderCommon', () => {
+  for (const sampleRate of SAMPLE_RATES) {
+    it(`detects at the ${sampleRate} Hz rate the platform negotiated`, () => {
+      const recorder = new TestRecorder({ sampleRate: 44100 });
+      recorder.negotiate(sampleRate);
+      expect(recorder.sampleRate).toBe(sampleRate);
+
+      for (const [note, octave] of NOTES) {
+        const frequency = noteToFrequency(note, octave);
+        const result = recorder.detectPitch(sine(frequency, sampleRate, 4096), 0.01);
+
+        expect(result).not.toBeNull();
+        expect(Math.abs(1200 * Math.log2(result!.frequency / frequency))).toBeLessThan(TOLERANCE_CENTS);
+      }
+    });
+  }
+
+  it('rejects buffers below the noise threshold', () => {
+    const recorder = new TestRecorder({ sampleRate: 48000 });
+    expect(recorder.detectPitch(new Float32Array(4096), 0.01)).toBeNull();
+  });
+});
+
+describe('HpsDetector on plucked strings', () => {
+  // A Karplus-Strong pluck starts from noise, so its partials are uneven and a
+  // few strong upper ones can outscore the fundamental
+  const { minFrequency, maxFrequency } = INSTRUMENT_INFO.guitar;
+  const STRINGS: [string, number][] = [['E', 2], ['A', 2], ['D', 3], ['G', 3], ['B', 3], ['E', 4]];
+  const SEEDS = [1, 2, 3];
+  const HOP = 1024;
+
+  for (const sampleRate of SAMPLE_RATES) {
+    for (const [note, octave] of STRINGS) {
+      it(`names ${note}${octave} through the first second at ${sampleRate} Hz`, () => {
+        for (const seed of SEEDS) {
+          const recorder = new TestRecorder({ sampleRate, pitchAlgorithm: 'hps', minFrequency, maxFrequency });
+          const samples = synthesizeTone('pluck', noteToFrequency(note, octave), sampleRate, seed).samples;
+
+          for (let start = 0; start + 4096 <= sampleRate; start += HOP) {
+            const result = recorder.detectPitch(samples.subarray(start, start + 4096), 0.01);
+            if (!result) continue;
+            const named = frequencyToNote(result.frequency);
+            expect(`${named.note}${named.octave}`, `seed ${seed} at ${start} samples`).toBe(`${note}${octave}`);
+          }
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { PitchData } from '../app/tuner/audio-recorder/audio.common';
+import { PitchSmoother } from '../app/tuner/pitch-smoothing';
+
+/**
+ * Pitch smoothing
+ * Each filter works on cents, restarts on a new note and averages harder at
+ * finer readout precision.
+ */
+
+const A4 = 440;
+
+// A reading of A4 the given number of cents off
+function reading(cents: number, confidence = 1, note = 'A'): PitchData {
+  return { frequency: A4 * Math.pow(2, cents / 1200), note, octave: 4, cents, amplitude: 0.1, confidence };
+}
+
+function centsOf(pitch: PitchData): number {
+  return 1200 * Math.log2(pitch.frequency / A4);
+}
+
+describe('PitchSmoother', () => {
+  it('passes readings through untouched when off', () => {
+    const smoother = new PitchSmoother('off');
+    const pitch = reading(5);
+
+    smoother.apply(reading(-20));
+    expect(smoother.apply(pitch)).toBe(pitch);
+  });
+
+  it('drops a single outlier frame with the median', () => {
+    const smoother = new PitchSmoother('median');
+    smoother.apply(reading(0));
+    smoother.apply(reading(0));
+
+    expect(smoother.apply(reading(50)).cents).toBeCloseTo(0, 9);
+  });
+
+  it('moves the exponential a fixed share of the way towards each reading', () => {
+    const smoother = new PitchSmoother('exponential', 1);
+    smoother.apply(reading(0));
+
+    expect(smoother.apply(reading(10)).cents).toBeCloseTo(3.5, 9);
+  });
+
+  it('averages harder at a finer precision', () => {
+    const coarse = new PitchSmoother('exponential', 1);
+    const fine = new PitchSmoother('exponential', 0.1);
+    coarse.apply(reading(0));
+    fine.apply(reading(0));
+
+    expect(fine.apply(reading(10)).cents).toBeLessThan(coarse.apply(reading(10)).cents);
+  });
+
+  it('lets the Kalman filter trust a confident reading more than a doubtful one', () => {
+    const confident = new PitchSmoother('kalman');
+    const doubtful = new PitchSmoother('kalman');
+    confident.apply(reading(0));
+    doubtful.apply(reading(0));
+
+    expect(confident.apply(reading(10, 1)).cents).toBeGreaterThan(doubtful.apply(reading(10, 0.3)).cents);
+  });
+
+  it('keeps frequency and cents in step', () => {
+    const smoother = new PitchSmoother('exponential');
+    smoother.apply(reading(-6));
+    const smoothed = smoother.apply(reading(8));
+
+    expect(centsOf(smoothed)).toBeCloseTo(smoothed.cents, 9);
+  });
+
+  it('starts afresh on a new note', () => {
+    const smoother = new PitchSmoother('exponential');
+    smoother.apply(reading(0));
+
+    expect(smoother.apply(reading(-40, 1, 'A#')).cents).toBe(-40);
+  });
+
+  it('starts afresh after a mode change or a reset', () => {
+    const smoother = new PitchSmoother('median');
+    smoother.apply(reading(0));
+    smoother.setMode('exponential');
+    expect(smoother.apply(reading(20)).cents).toBeCloseTo(20, 9);
+
+    smoother.reset();
+    expect(smoother.apply(reading(-20)).cents).toBeCloseTo(-20, 9);
+  });
+});
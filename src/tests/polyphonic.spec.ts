@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { StringEstimator } from '../app/tuner/audio-recorder/polyphonic';
+import { noteToFrequency } from '../app/tuner/audio-recorder/notes';
+import { drone } from '../app/tuner/tone-player/synthesis';
+
+/**
+ * Polyphonic string estimation
+ * A strum of detuned strings must come back string by string, each
+ * within a few cents of how far it was detuned.
+ */
+
+const SAMPLE_RATE = 44100;
+const WINDOW_SIZE = 8192;
+const STRINGS: [string, number][] = [['E', 2], ['A', 2], ['D', 3], ['G', 3], ['B', 3], ['E', 4]];
+const TARGETS = STRINGS.map(([note, octave]) => noteToFrequency(note, octave));
+const TOLERANCE_CENTS = 3;
+
+// Every string ringing at once with a harmonic-rich tone, detuned by the given
+// cents; null leaves a string muted
+function strum(detune: (number | null)[]): Float32Array {
+  const mix = new Float32Array(WINDOW_SIZE);
+  detune.forEach((cents, string) => {
+    if (cents === null) return;
+    const samples = drone(TARGETS[string] * Math.pow(2, cents / 1200), SAMPLE_RATE);
+    for (let i = 0; i < WINDOW_SIZE; i++) {
+      mix[i] += samples[i] / detune.length;
+    }
+  });
+  return mix;
+}
+
+describe('StringEstimator', () => {
+  it('reads every string of a detuned strum', () => {
+    // E2's third partial lies on B3, so the two stay within a few cents of
+    // each other, as on a guitar tuned to itself
+    const detune = [10, -15, 5, -8, 8, 20];
+    const estimates = new StringEstimator().estimate(strum(detune), SAMPLE_RATE, TARGETS);
+
+    estimates.forEach((estimate, string) => {
+      expect(estimate.detected, STRINGS[string].join('')).toBe(true);
+      expect(Math.abs(estimate.cents - detune[string]), STRINGS[string].join('')).toBeLessThan(TOLERANCE_CENTS);
+      expect(estimate.strength).toBeGreaterThan(0);
+      expect(estimate.strength).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('reports a muted string as not heard', () => {
+    const estimates = new StringEstimator().estimate(strum([5, -5, null, 0, 10, -10]), SAMPLE_RATE, TARGETS);
+
+    expect(estimates[2].detected).toBe(false);
+    expect(estimates[2].frequency).toBe(0);
+    expect(estimates.filter(estimate => estimate.detected)).toHaveLength(5);
+  });
+
+  it('does not read a string beyond the scan range', () => {
+    const estimates = new StringEstimator().estimate(strum([0, 0, 80, 0, 0, 0]), SAMPLE_RATE, TARGETS);
+
+    expect(estimates[2].detected).toBe(false);
+  });
+});
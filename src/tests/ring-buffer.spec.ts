@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { RingBuffer } from '../app/tuner/audio-recorder/ring-buffer';
+import { TestRecorder } from './test-recorder';
+
+/**
+ * Ring buffer and hop
+ * The recorder keeps the latest samples in a ring buffer and analyses the
+ * newest window each time another hop has arrived, so windows overlap.
+ */
+
+// 1, 2, 3... so a sample's value tells where in the stream it came from
+function ramp(from: number, length: number): Float32Array {
+  return Float32Array.from({ length }, (_, i) => from + i);
+}
+
+describe('RingBuffer', () => {
+  it('reads nothing until enough samples were written', () => {
+    const buffer = new RingBuffer(8);
+    buffer.push(ramp(1, 3));
+
+    expect(buffer.length).toBe(3);
+    expect(buffer.readLatest(new Float32Array(4))).toBe(false);
+  });
+
+  it('reads the latest samples oldest first across the wrap', () => {
+    const buffer = new RingBuffer(8);
+    buffer.push(ramp(1, 6));
+    buffer.push(ramp(7, 5));
+
+    const out = new Float32Array(8);
+    expect(buffer.readLatest(out)).toBe(true);
+    expect(Array.from(out)).toEqual([4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(buffer.length).toBe(8);
+  });
+
+  it('keeps only the tail of a chunk longer than the capacity', () => {
+    const buffer = new RingBuffer(4);
+    buffer.push(ramp(1, 10));
+
+    const out = new Float32Array(4);
+    buffer.readLatest(out);
+    expect(Array.from(out)).toEqual([7, 8, 9, 10]);
+  });
+
+  it('forgets everything when cleared', () => {
+    const buffer = new RingBuffer(4);
+    buffer.push(ramp(1, 4));
+    buffer.clear();
+
+    expect(buffer.length).toBe(0);
+    expect(buffer.readLatest(new Float32Array(1))).toBe(false);
+  });
+});
+
+describe('AudioRecorderCommon hop', () => {
+  const NO_FILTERS = { dcBlock: false, bandPass: false, humNotch: 'off' as const };
+
+  function recordWindows(recorder: TestRecorder, chunks: number, chunkSize: number): number[][] {
+    const windows: number[][] = [];
+    recorder.setAudioDataCallback(window => windows.push(Array.from(window)));
+    for (let i = 0; i < chunks; i++) {
+      recorder.feed(ramp(1 + i * chunkSize, chunkSize));
+    }
+    return windows;
+  }
+
+  it('analyses overlapping windows once per hop after the first full window', () => {
+    const recorder = new TestRecorder({ bufferSize: 8, hopSize: 4, inputFilters: NO_FILTERS });
+    const windows = recordWindows(recorder, 8, 2);
+
+    expect(windows).toEqual([
+      [1, 2, 3, 4, 5, 6, 7, 8],
+      [5, 6, 7, 8, 9, 10, 11, 12],
+      [9, 10, 11, 12, 13, 14, 15, 16]
+    ]);
+  });
+
+  it('never hops further than a window', () => {
+    const recorder = new TestRecorder({ bufferSize: 4, hopSize: 16, inputFilters: NO_FILTERS });
+
+    expect(recorder.hopSize).toBe(4);
+    expect(recordWindows(recorder, 4, 2)).toEqual([[1, 2, 3, 4], [5, 6, 7, 8]]);
+  });
+
+  it('reads a new window size from the samples already recorded', () => {
+    const recorder = new TestRecorder({ bufferSize: 4, hopSize: 4, maxBufferSize: 8, inputFilters: NO_FILTERS });
+    recorder.feed(ramp(1, 8));
+    recorder.setAnalysisWindow(8);
+
+    const windows: number[][] = [];
+    recorder.setAudioDataCallback(window => windows.push(Array.from(window)));
+    recorder.feed(ramp(9, 4));
+    expect(windows).toEqual([[5, 6, 7, 8, 9, 10, 11, 12]]);
+  });
+});
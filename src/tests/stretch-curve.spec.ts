@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { InharmonicitySample, PIANO_KEYS, buildStretchCurve, inharmonicityAt, pianoKey, stretchCents } from '../app/tuner/stretch-curve';
+
+/**
+ * Piano stretch curve
+ * Every octave of the curve must be beatless on the partials the ear follows
+ * for the given inharmonicity, with A4 left at the reference pitch.
+ */
+
+const A4_KEY = 49;
+const MEASURED: InharmonicitySample[] = [
+  { key: 10, coefficient: 0.0008, measurements: 3 },
+  { key: 40, coefficient: 0.0002, measurements: 5 },
+  { key: 70, coefficient: 0.002, measurements: 2 }
+];
+
+// Frequency of partial n of a key tuned to the curve, with the key's first
+// partial `cents` off equal temperament
+function partial(curve: number[], samples: InharmonicitySample[], key: number, n: number): number {
+  const coefficient = inharmonicityAt(samples, key);
+  const first = 440 * Math.pow(2, (key - A4_KEY) / 12 + curve[key - 1] / 1200);
+  return (n * first * Math.sqrt(1 + coefficient * n * n)) / Math.sqrt(1 + coefficient);
+}
+
+describe('pianoKey', () => {
+  it('numbers the keyboard from A0 to C8', () => {
+    expect(pianoKey('A', 0)).toBe(1);
+    expect(pianoKey('C', 4)).toBe(40);
+    expect(pianoKey('A', 4)).toBe(A4_KEY);
+    expect(pianoKey('C', 8)).toBe(PIANO_KEYS);
+  });
+});
+
+describe('inharmonicityAt', () => {
+  it('interpolates between measured keys on a log scale', () => {
+    expect(inharmonicityAt(MEASURED, 10)).toBe(0.0008);
+    expect(inharmonicityAt(MEASURED, 25)).toBeCloseTo(0.0004, 12);
+  });
+
+  it('keeps the nearest measurement beyond the measured keys', () => {
+    expect(inharmonicityAt(MEASURED, 1)).toBe(0.0008);
+    expect(inharmonicityAt(MEASURED, 88)).toBe(0.002);
+  });
+
+  it('does not depend on the order of the measurements', () => {
+    expect(inharmonicityAt([...MEASURED].reverse(), 55)).toBe(inharmonicityAt(MEASURED, 55));
+  });
+
+  it('falls back to typical values without measurements', () => {
+    expect(inharmonicityAt([], A4_KEY)).toBeCloseTo(0.0004, 12);
+    expect(inharmonicityAt([], 88)).toBeGreaterThan(inharmonicityAt([], 28));
+  });
+});
+
+describe('buildStretchCurve', () => {
+  const curve = buildStretchCurve(MEASURED);
+
+  it('leaves A4 at the reference pitch', () => {
+    expect(curve[A4_KEY - 1]).toBeCloseTo(0, 12);
+  });
+
+  it('runs flat in the bass and sharp in the treble', () => {
+    expect(curve[0]).toBeLessThan(-5);
+    expect(curve[PIANO_KEYS - 1]).toBeGreaterThan(5);
+  });
+
+  it('widens every octave', () => {
+    for (let key = 1; key + 12 <= PIANO_KEYS; key++) {
+      expect(curve[key + 11] - curve[key - 1], `key ${key}`).toBeGreaterThan(0);
+    }
+  });
+
+  it('tunes treble octaves beatless 2:1', () => {
+    for (let key = A4_KEY; key + 12 <= PIANO_KEYS; key++) {
+      const beat = partial(curve, MEASURED, key, 2) - partial(curve, MEASURED, key + 12, 1);
+      expect(Math.abs(beat), `key ${key}`).toBeLessThan(1e-6);
+    }
+  });
+
+  it('tunes bass octaves beatless 4:2', () => {
+    for (let key = 1; key < A4_KEY - 12; key++) {
+      const beat = partial(curve, MEASURED, key, 4) - partial(curve, MEASURED, key + 12, 2);
+      expect(Math.abs(beat), `key ${key}`).toBeLessThan(1e-6);
+    }
+  });
+
+  it('stays at equal temperament for ideal strings', () => {
+    expect(buildStretchCurve([{ key: 49, coefficient: 0, measurements: 1 }]).every(cents => cents === 0)).toBe(true);
+  });
+});
+
+describe('stretchCents', () => {
+  it('looks up a note on the keyboard and leaves notes off it alone', () => {
+    const curve = buildStretchCurve(MEASURED);
+
+    expect(stretchCents(curve, 'C', 8)).toBe(curve[PIANO_KEYS - 1]);
+    expect(stretchCents(curve, 'G', 0)).toBe(0);
+    expect(stretchCents(curve, 'C#', 8)).toBe(0);
+  });
+});
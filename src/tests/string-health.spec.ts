@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  StringHealthRecord,
+  SustainTracker,
+  assessStringHealth,
+  describeStringHealth
+} from '../app/tuner/string-health';
+
+/**
+ * String health
+ * A ringing string's decay rate is fitted after the attack, and later readings
+ * are compared with the first usable one on that string.
+ */
+
+const FRAME_SECONDS = 0.05;
+
+function record(decayRate: number, coefficient: number): StringHealthRecord {
+  return { timestamp: 0, coefficient, decayRate };
+}
+
+// Feeds the tracker a note that decays at the given rate after a loud attack,
+// frame by frame, and returns the first rate it reports
+function ring(tracker: SustainTracker, decayRate: number, seconds = 3): number | null {
+  for (let t = FRAME_SECONDS; t <= seconds; t += FRAME_SECONDS) {
+    const level = t < 0.1 ? 0.9 : 0.3 * Math.pow(10, (-decayRate * t) / 20);
+    const rate = tracker.addLevel(level, FRAME_SECONDS);
+    if (rate !== null) return rate;
+  }
+  return null;
+}
+
+describe('SustainTracker', () => {
+  it('measures the decay rate in dB per second, leaving out the attack', () => {
+    const tracker = new SustainTracker();
+    tracker.start();
+
+    expect(ring(tracker, 12)).toBeCloseTo(12, 6);
+    expect(tracker.isTracking).toBe(false);
+  });
+
+  it('reports once the measured span has rung out', () => {
+    const tracker = new SustainTracker();
+    tracker.start();
+    ring(tracker, 12);
+
+    expect(tracker.seconds).toBeGreaterThanOrEqual(2.1);
+    expect(tracker.seconds).toBeLessThan(2.1 + 2 * FRAME_SECONDS);
+  });
+
+  it('measures nothing until started, or once cancelled', () => {
+    const idle = new SustainTracker();
+    const cancelled = new SustainTracker();
+    cancelled.start();
+    cancelled.cancel();
+
+    expect(ring(idle, 12)).toBeNull();
+    expect(ring(cancelled, 12)).toBeNull();
+  });
+
+  it('reports nothing for a note that does not decay', () => {
+    const tracker = new SustainTracker();
+    tracker.start();
+
+    expect(ring(tracker, -3)).toBeNull();
+  });
+});
+
+describe('assessStringHealth', () => {
+  it('has nothing to say without a usable reading', () => {
+    expect(assessStringHealth([])).toBeNull();
+    expect(assessStringHealth([record(10, 0), record(0, 0.0002)])).toBeNull();
+  });
+
+  it('takes the first usable reading as the baseline', () => {
+    const first = record(10, 0.0002);
+
+    expect(assessStringHealth([record(10, 0), first])).toEqual({ status: 'baseline', decayChange: 0, inharmonicityChange: 0, latest: first });
+  });
+
+  it('compares the mean of the latest three readings with the first', () => {
+    const history = [record(10, 0.0002), record(30, 0.0002), record(11, 0.0002), record(12, 0.0002), record(13, 0.0002)];
+
+    expect(assessStringHealth(history)).toMatchObject({ status: 'good', decayChange: expect.closeTo(0.2, 9), inharmonicityChange: 0 });
+  });
+
+  it('calls a string worn once it decays a quarter faster or runs 15% sharper', () => {
+    expect(assessStringHealth([record(10, 0.0002), record(13, 0.0002)])?.status).toBe('worn');
+    expect(assessStringHealth([record(10, 0.0002), record(10, 0.00024)])?.status).toBe('worn');
+  });
+
+  it('calls for a new string at half again the decay or 30% sharper', () => {
+    expect(assessStringHealth([record(10, 0.0002), record(16, 0.0002)])?.status).toBe('replace');
+    expect(assessStringHealth([record(10, 0.0002), record(10, 0.00028)])?.status).toBe('replace');
+  });
+});
+
+describe('describeStringHealth', () => {
+  it('describes the change in both measures', () => {
+    const assessment = assessStringHealth([record(10, 0.0002), record(14, 0.00018)])!;
+
+    expect(describeStringHealth(assessment)).toBe('Decays 40% faster, partials 10% truer than when first measured');
+  });
+
+  it('explains a baseline reading', () => {
+    expect(describeStringHealth(assessStringHealth([record(10, 0.0002)])!)).toBe('First reading taken, later ones are compared with it');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { NOTE_NAMES } from '../app/tuner/audio-recorder/notes';
+import { TEMPERAMENT_INFO, Temperament, temperamentOffsets } from '../app/tuner/audio-recorder/temperaments';
+
+/**
+ * Temperaments
+ * Offsets from equal temperament must give each temperament's characteristic
+ * intervals on any tonic, while A stays at the reference pitch.
+ */
+
+const TEMPERAMENTS = Object.keys(TEMPERAMENT_INFO) as Temperament[];
+const PURE_FIFTH = 1200 * Math.log2(3 / 2);
+const PURE_MAJOR_THIRD = 1200 * Math.log2(5 / 4);
+
+// Published deviations from equal temperament on C, to two decimals
+const WELL_TEMPERED_ON_C: Partial<Record<Temperament, number[]>> = {
+  werckmeister3: [0, -9.78, -7.82, -5.87, -9.78, -1.96, -11.73, -3.91, -7.82, -11.73, -3.91, -7.82],
+  vallotti: [0, -5.87, -3.91, -1.96, -7.82, 1.96, -7.82, -1.96, -3.91, -5.87, 0, -9.78]
+};
+
+function index(note: string): number {
+  return NOTE_NAMES.indexOf(note);
+}
+
+// Size in cents of the interval from one note up to another
+function interval(offsets: number[], from: string, to: string): number {
+  const semitones = (index(to) - index(from) + 12) % 12;
+  return semitones * 100 + offsets[index(to)] - offsets[index(from)];
+}
+
+describe('temperamentOffsets', () => {
+  it('leaves equal temperament untouched', () => {
+    expect(temperamentOffsets('equal', 'D')).toEqual(new Array(12).fill(0));
+  });
+
+  for (const temperament of TEMPERAMENTS) {
+    it(`keeps A at the reference pitch in ${temperament} on any tonic`, () => {
+      for (const tonic of NOTE_NAMES) {
+        expect(temperamentOffsets(temperament, tonic)[index('A')]).toBeCloseTo(0, 9);
+      }
+    });
+  }
+
+  it('tunes just intonation in pure intervals from the tonic', () => {
+    const offsets = temperamentOffsets('just', 'C');
+
+    expect(interval(offsets, 'C', 'G')).toBeCloseTo(PURE_FIFTH, 9);
+    expect(interval(offsets, 'C', 'E')).toBeCloseTo(PURE_MAJOR_THIRD, 9);
+    expect(interval(offsets, 'C', 'A')).toBeCloseTo(1200 * Math.log2(5 / 3), 9);
+  });
+
+  it('stacks pure fifths in Pythagorean, leaving the wolf between G# and Eb', () => {
+    const offsets = temperamentOffsets('pythagorean', 'C');
+    const fifths = ['D#', 'A#', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#'];
+
+    for (let i = 0; i + 1 < fifths.length; i++) {
+      expect(interval(offsets, fifths[i], fifths[i + 1]), `${fifths[i]}-${fifths[i + 1]}`).toBeCloseTo(PURE_FIFTH, 9);
+    }
+    const comma = 12 * PURE_FIFTH - 7 * 1200;
+    expect(interval(offsets, 'G#', 'D#')).toBeCloseTo(PURE_FIFTH - comma, 9);
+  });
+
+  it('keeps the major thirds of quarter-comma meantone pure', () => {
+    const offsets = temperamentOffsets('meantone', 'C');
+
+    for (const [from, to] of [['C', 'E'], ['F', 'A'], ['G', 'B'], ['D', 'F#'], ['A#', 'D']]) {
+      expect(interval(offsets, from, to), `${from}-${to}`).toBeCloseTo(PURE_MAJOR_THIRD, 9);
+    }
+  });
+
+  for (const [temperament, table] of Object.entries(WELL_TEMPERED_ON_C) as [Temperament, number[]][]) {
+    it(`matches the published ${temperament} table`, () => {
+      const offsets = temperamentOffsets(temperament, 'C');
+      // The table keeps C at zero; the offsets keep A there
+      const shift = offsets[index('C')];
+
+      offsets.forEach((offset, i) => expect(offset - shift, NOTE_NAMES[i]).toBeCloseTo(table[i], 1));
+    });
+  }
+
+  it('moves the whole pattern with the tonic', () => {
+    const onC = temperamentOffsets('meantone', 'C');
+    const onG = temperamentOffsets('meantone', 'G');
+
+    expect(interval(onG, 'G', 'B')).toBeCloseTo(interval(onC, 'C', 'E'), 9);
+    expect(interval(onG, 'D', 'A')).toBeCloseTo(interval(onC, 'G', 'D'), 9);
+  });
+});
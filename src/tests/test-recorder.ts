@@ -0,0 +1,20 @@
+import { AudioRecorderCommon } from '../app/tuner/audio-recorder/audio.common';
+
+// Platform calls are not needed; the rate is negotiated as a platform recorder would
+export class TestRecorder extends AudioRecorderCommon {
+  negotiate(sampleRate: number): void {
+    this.setSampleRate(sampleRate);
+  }
+
+  // Hand a chunk over as a platform recorder does after each read
+  feed(samples: Float32Array): void {
+    this.pushSamples(samples);
+  }
+
+  async requestPermission(): Promise<boolean> {
+    return true;
+  }
+  start(): void {}
+  stop(): void {}
+  dispose(): void {}
+}
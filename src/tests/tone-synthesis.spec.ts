@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { PITCH_ALGORITHM_INFO, PitchAlgorithm } from '../app/tuner/audio-recorder/audio.common';
+import { noteToFrequency } from '../app/tuner/audio-recorder/notes';
+import { INSTRUMENT_INFO } from '../app/tuner/instruments';
+import { TONE_WAVEFORM_INFO, ToneWaveform, loopLength, synthesizeTone } from '../app/tuner/tone-player/synthesis';
+import { TestRecorder } from './test-recorder';
+
+/**
+ * Reference tone round trip
+ * Every waveform the tone player synthesizes must read back as the note it was
+ * asked for, with every detector, across the guitar's open strings.
+ */
+
+const SAMPLE_RATES = [44100, 48000];
+const WINDOW_SIZE = 4096;
+const STRINGS: [string, number][] = [['E', 2], ['A', 2], ['D', 3], ['G', 3], ['B', 3], ['E', 4]];
+const WAVEFORMS = Object.keys(TONE_WAVEFORM_INFO) as ToneWaveform[];
+const ALGORITHMS = Object.keys(PITCH_ALGORITHM_INFO) as PitchAlgorithm[];
+// Windows read back, in seconds from the start of the tone: past the fade-in,
+// mid-note and late in a pluck while it is still above the noise threshold
+const READ_TIMES = [0.1, 0.5, 1];
+const TOLERANCE_CENTS = 3;
+
+describe('synthesizeTone', () => {
+  const { minFrequency, maxFrequency } = INSTRUMENT_INFO.guitar;
+
+  for (const algorithm of ALGORITHMS) {
+    for (const sampleRate of SAMPLE_RATES) {
+      describe(`read back by ${algorithm} at ${sampleRate} Hz`, () => {
+        for (const waveform of WAVEFORMS) {
+          for (const [note, octave] of STRINGS) {
+            it(`plays ${note}${octave} as a ${waveform} in tune`, () => {
+              const frequency = noteToFrequency(note, octave);
+              const { samples } = synthesizeTone(waveform, frequency, sampleRate);
+              const recorder = new TestRecorder({ sampleRate, bufferSize: WINDOW_SIZE, pitchAlgorithm: algorithm, minFrequency, maxFrequency });
+
+              for (const time of READ_TIMES) {
+                const start = Math.round(time * sampleRate);
+                const result = recorder.detectPitch(samples.subarray(start, start + WINDOW_SIZE), 0.01);
+
+                expect(result, `at ${time} s`).not.toBeNull();
+                expect(Math.abs(1200 * Math.log2(result!.frequency / frequency)), `at ${time} s`).toBeLessThan(TOLERANCE_CENTS);
+              }
+            });
+          }
+        }
+      });
+    }
+  }
+
+  it('loops only the drone', () => {
+    for (const waveform of WAVEFORMS) {
+      expect(synthesizeTone(waveform, 110, 48000).loop).toBe(waveform === 'drone');
+    }
+  });
+
+  it('stays within full scale', () => {
+    for (const waveform of WAVEFORMS) {
+      const { samples } = synthesizeTone(waveform, 82.41, 44100);
+      expect(samples.every(sample => Math.abs(sample) <= 1)).toBe(true);
+    }
+  });
+});
+
+describe('loopLength', () => {
+  it('holds a whole number of cycles, so a loop never clicks', () => {
+    for (const sampleRate of SAMPLE_RATES) {
+      for (const [note, octave] of STRINGS) {
+        const frequency = noteToFrequency(note, octave);
+        const length = loopLength(frequency, sampleRate, 2 * sampleRate);
+        const cycles = (length * frequency) / sampleRate;
+
+        expect(length).toBeGreaterThanOrEqual(2 * sampleRate);
+        expect(Math.abs(cycles - Math.round(cycles))).toBeLessThan(1e-3);
+      }
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { NOTE_NAMES, noteToFrequency } from '../app/tuner/audio-recorder/notes';
+import { INSTRUMENT_INFO, InstrumentType } from '../app/tuner/instruments';
+import { CUSTOM_TUNING_PREFIX, STANDARD_TUNING, TUNINGS, Tuning, describeTuning, getTuning, nearestString, stringFrequency, transposeString } from '../app/tuner/tunings';
+
+/**
+ * Tunings and string matching
+ * Presets must name real notes inside their instrument's range, and string
+ * mode must pick the string whose target is nearest the played pitch.
+ */
+
+const SWEETENED: Tuning = {
+  id: `${CUSTOM_TUNING_PREFIX}sweetened`,
+  name: 'Sweetened',
+  strings: [{ note: 'E', octave: 2 }, { note: 'B', octave: 3, cents: -2 }, { note: 'E', octave: 4, cents: 1.5 }]
+};
+
+describe('TUNINGS', () => {
+  for (const instrument of Object.keys(TUNINGS) as InstrumentType[]) {
+    it(`keeps every ${instrument} string a real note within the detection range`, () => {
+      const { minFrequency, maxFrequency } = INSTRUMENT_INFO[instrument];
+      for (const tuning of TUNINGS[instrument]) {
+        for (const { note, octave } of tuning.strings) {
+          expect(NOTE_NAMES).toContain(note);
+          const frequency = noteToFrequency(note, octave);
+          expect(frequency, `${tuning.id} ${note}${octave}`).toBeGreaterThan(minFrequency);
+          expect(frequency, `${tuning.id} ${note}${octave}`).toBeLessThan(maxFrequency);
+        }
+      }
+    });
+  }
+});
+
+describe('getTuning', () => {
+  it('finds a preset or a custom tuning by id', () => {
+    expect(getTuning('guitar', 'drop-d').name).toBe('Drop D');
+    expect(getTuning('bass', SWEETENED.id, [SWEETENED])).toBe(SWEETENED);
+  });
+
+  it("falls back to the instrument's default, and to guitar for an instrument without strings", () => {
+    expect(getTuning('ukulele', 'missing')).toBe(TUNINGS.ukulele[0]);
+    expect(getTuning('piano', 'standard')).toBe(STANDARD_TUNING);
+  });
+});
+
+describe('describeTuning', () => {
+  it('lists the notes with any cent offsets', () => {
+    expect(describeTuning(STANDARD_TUNING)).toBe('E2 A2 D3 G3 B3 E4');
+    expect(describeTuning(SWEETENED)).toBe('E2 B3-2¢ E4+1.5¢');
+  });
+});
+
+describe('transposeString', () => {
+  it('moves across octaves and keeps the cent offset', () => {
+    expect(transposeString({ note: 'E', octave: 2 }, -2)).toEqual({ note: 'D', octave: 2 });
+    expect(transposeString({ note: 'B', octave: 3, cents: -2 }, 1)).toEqual({ note: 'C', octave: 4, cents: -2 });
+    expect(transposeString({ note: 'C', octave: 3 }, -1)).toEqual({ note: 'B', octave: 2 });
+  });
+});
+
+describe('stringFrequency', () => {
+  it('adds the cent offset to the note', () => {
+    expect(stringFrequency({ note: 'A', octave: 4 })).toBeCloseTo(440, 9);
+    expect(stringFrequency({ note: 'A', octave: 4, cents: 1200 }, 442)).toBeCloseTo(884, 9);
+  });
+
+  it('follows the temperament', () => {
+    const raisedA = NOTE_NAMES.map(note => (note === 'A' ? 10 : 0));
+    expect(stringFrequency({ note: 'A', octave: 2 }, 440, raisedA)).toBeCloseTo(110 * Math.pow(2, 10 / 1200), 9);
+  });
+});
+
+describe('nearestString', () => {
+  it('matches the nearest string and reports cents against it', () => {
+    const match = nearestString(STANDARD_TUNING, 112)!;
+
+    expect(match.index).toBe(1);
+    expect(match.frequency).toBeCloseTo(110, 9);
+    expect(match.cents).toBeCloseTo(1200 * Math.log2(112 / 110), 9);
+  });
+
+  it('picks between neighbouring strings by cents, not hertz', () => {
+    // 171 Hz is 24 Hz above D3 and 25 Hz below G3, but nearer G3 in cents
+    expect(nearestString(STANDARD_TUNING, 171)!.index).toBe(3);
+  });
+
+  it("measures against a string's deliberate offset", () => {
+    const match = nearestString(SWEETENED, noteToFrequency('B', 3))!;
+
+    expect(match.index).toBe(1);
+    expect(match.cents).toBeCloseTo(2, 9);
+  });
+
+  it('finds no string in a tuning without strings', () => {
+    expect(nearestString({ id: 'empty', name: 'Empty', strings: [] }, 440)).toBeNull();
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Specs run in Node with no platform to pick index.android or index.ios, so
+// imports of the recorder get its shared code
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^(\.{1,2}(?:\/\.\.)*)\/audio-recorder$/, replacement: '$1/audio-recorder/audio.common' }]
+  }
+});